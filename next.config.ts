@@ -1,5 +1,18 @@
 import type { NextConfig } from "next";
 
+// Uploads served from an S3-compatible bucket (see src/lib/storage.ts)
+const storageUrl = process.env.STORAGE_DRIVER === 's3'
+  ? new URL(process.env.S3_PUBLIC_URL || `${process.env.S3_ENDPOINT}/${process.env.S3_BUCKET}`)
+  : null;
+const storagePatterns = storageUrl
+  ? [{
+      protocol: storageUrl.protocol === 'http:' ? 'http' as const : 'https' as const,
+      hostname: storageUrl.hostname,
+      port: storageUrl.port,
+      pathname: `${storageUrl.pathname.replace(/\/+$/, '')}/**`,
+    }]
+  : [];
+
 const nextConfig: NextConfig = {
   images: {
     domains: [
@@ -49,7 +62,8 @@ const nextConfig: NextConfig = {
         hostname: 'ipfs.io',
         port: '',
         pathname: '/**',
-      }
+      },
+      ...storagePatterns
     ],
   },
 };
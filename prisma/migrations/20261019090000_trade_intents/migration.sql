@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."TradeIntentStatus" AS ENUM ('PENDING', 'SUBMITTED', 'CONFIRMED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."trade_intents" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "userAddress" TEXT NOT NULL,
+    "type" "public"."TransactionType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "solAmount" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "feeAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "message" TEXT NOT NULL,
+    "blockhash" TEXT NOT NULL,
+    "lastValidBlockHeight" INTEGER NOT NULL,
+    "status" "public"."TradeIntentStatus" NOT NULL DEFAULT 'PENDING',
+    "signature" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trade_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trade_intents_signature_key" ON "public"."trade_intents"("signature");
+
+-- CreateIndex
+CREATE INDEX "trade_intents_tokenId_status_idx" ON "public"."trade_intents"("tokenId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."trade_intents" ADD CONSTRAINT "trade_intents_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."trade_intents" ADD COLUMN     "slippage" DOUBLE PRECISION NOT NULL DEFAULT 5;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "realSolReserves" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "realTokenReserves" DOUBLE PRECISION NOT NULL DEFAULT 800000000,
+ADD COLUMN     "virtualSolReserves" DOUBLE PRECISION NOT NULL DEFAULT 30,
+ADD COLUMN     "virtualTokenReserves" DOUBLE PRECISION NOT NULL DEFAULT 1073000000;
+
+-- Backfill existing tokens from the supply they have sold on the default curve
+UPDATE "public"."tokens"
+SET "virtualTokenReserves" = 1073000000 - LEAST("currentSupply", 800000000),
+    "virtualSolReserves" = (30.0 * 1073000000) / (1073000000 - LEAST("currentSupply", 800000000)),
+    "realTokenReserves" = 800000000 - LEAST("currentSupply", 800000000),
+    "realSolReserves" = (30.0 * 1073000000) / (1073000000 - LEAST("currentSupply", 800000000)) - 30;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "public"."CurveType" AS ENUM ('CONSTANT_PRODUCT', 'LINEAR', 'EXPONENTIAL');
+
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "curveParams" JSONB,
+ADD COLUMN     "curveType" "public"."CurveType" NOT NULL DEFAULT 'CONSTANT_PRODUCT';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."trade_intents" ADD COLUMN     "exactOut" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."FeeRecipient" AS ENUM ('PLATFORM', 'CREATOR', 'REFERRER');
+
+-- AlterTable
+ALTER TABLE "public"."trade_intents" ADD COLUMN     "creatorFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "platformFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "referrerAddress" TEXT,
+ADD COLUMN     "referrerFee" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."fee_schedules" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT,
+    "buyFee" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "sellFee" DOUBLE PRECISION NOT NULL DEFAULT 5,
+    "platformShare" DOUBLE PRECISION NOT NULL DEFAULT 40,
+    "creatorShare" DOUBLE PRECISION NOT NULL DEFAULT 50,
+    "referrerShare" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fee_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."fee_ledger" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "tradeType" "public"."TransactionType" NOT NULL,
+    "recipient" "public"."FeeRecipient" NOT NULL,
+    "address" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fee_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_schedules_tokenId_key" ON "public"."fee_schedules"("tokenId");
+
+-- CreateIndex
+CREATE INDEX "fee_ledger_tokenId_idx" ON "public"."fee_ledger"("tokenId");
+
+-- CreateIndex
+CREATE INDEX "fee_ledger_address_idx" ON "public"."fee_ledger"("address");
+
+-- AddForeignKey
+ALTER TABLE "public"."fee_schedules" ADD CONSTRAINT "fee_schedules_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."fee_ledger" ADD CONSTRAINT "fee_ledger_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
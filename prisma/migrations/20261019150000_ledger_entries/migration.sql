@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."LedgerEventType" AS ENUM ('TRADE', 'FEE', 'CLAIM', 'MINT_RENT', 'GRADUATION', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "public"."LedgerAccount" AS ENUM ('TREASURY', 'CURVE_RESERVES', 'MIGRATION_PAYABLE', 'PLATFORM_REVENUE', 'CREATOR_PAYABLE', 'REFERRER_PAYABLE', 'RENT_EXPENSE', 'NETWORK_FEES', 'OWNER_EQUITY');
+
+-- CreateTable
+CREATE TABLE "public"."ledger_entries" (
+    "id" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "eventType" "public"."LedgerEventType" NOT NULL,
+    "account" "public"."LedgerAccount" NOT NULL,
+    "debit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tokenId" TEXT,
+    "address" TEXT,
+    "signature" TEXT,
+    "memo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_journalId_idx" ON "public"."ledger_entries"("journalId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_account_createdAt_idx" ON "public"."ledger_entries"("account", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_tokenId_idx" ON "public"."ledger_entries"("tokenId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ledger_entries" ADD CONSTRAINT "ledger_entries_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
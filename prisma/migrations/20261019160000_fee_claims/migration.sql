@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."FeeClaimStatus" AS ENUM ('PENDING', 'SENT', 'CONFIRMED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."creator_fees" ADD COLUMN     "pendingFees" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."fee_claims" (
+    "id" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "creatorAddress" TEXT NOT NULL,
+    "tokenAddress" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "allocations" JSONB NOT NULL,
+    "status" "public"."FeeClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "signature" TEXT,
+    "transaction" TEXT,
+    "blockhash" TEXT,
+    "lastValidBlockHeight" INTEGER,
+    "error" TEXT,
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fee_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_claims_idempotencyKey_key" ON "public"."fee_claims"("idempotencyKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_claims_signature_key" ON "public"."fee_claims"("signature");
+
+-- CreateIndex
+CREATE INDEX "fee_claims_creatorAddress_status_idx" ON "public"."fee_claims"("creatorAddress", "status");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."auth_nonces" (
+    "nonce" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_nonces_pkey" PRIMARY KEY ("nonce")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_nonces_address_idx" ON "public"."auth_nonces"("address");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "bannerCropUrl" TEXT,
+ADD COLUMN     "imageCardUrl" TEXT,
+ADD COLUMN     "imagePosterUrl" TEXT,
+ADD COLUMN     "imageThumbUrl" TEXT;
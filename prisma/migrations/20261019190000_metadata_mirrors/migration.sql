@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."metadata_mirrors" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "uri" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "metadata_mirrors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "metadata_mirrors_tokenId_provider_contentHash_key" ON "public"."metadata_mirrors"("tokenId", "provider", "contentHash");
+
+-- AddForeignKey
+ALTER TABLE "public"."metadata_mirrors" ADD CONSTRAINT "metadata_mirrors_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "rugScoreUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."rug_score_snapshots" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "riskLevel" TEXT NOT NULL,
+    "listingScore" DOUBLE PRECISION NOT NULL,
+    "onChainScore" DOUBLE PRECISION NOT NULL,
+    "factors" JSONB NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "previousRiskLevel" TEXT,
+    "escalated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rug_score_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rug_score_snapshots_tokenId_createdAt_idx" ON "public"."rug_score_snapshots"("tokenId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."rug_score_snapshots" ADD CONSTRAINT "rug_score_snapshots_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."tokens"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "public"."rug_rule_weights" (
+    "ruleId" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rug_rule_weights_pkey" PRIMARY KEY ("ruleId")
+);
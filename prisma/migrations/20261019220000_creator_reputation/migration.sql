@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "peakMarketCap" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- The best known peak for existing tokens is where they are now
+UPDATE "public"."tokens" SET "peakMarketCap" = "marketCap";
+
+-- AlterTable
+ALTER TABLE "public"."rug_score_snapshots" ADD COLUMN     "creatorScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "tokens_creatorAddress_idx" ON "public"."tokens"("creatorAddress");
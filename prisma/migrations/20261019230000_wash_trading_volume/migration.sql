@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."tokens" ADD COLUMN     "organicVolume24h" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "volume24h" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "volumeAnalyzedAt" TIMESTAMP(3),
+ADD COLUMN     "washVolume24h" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { TokenCard } from '@/components/TokenCard'
 import { Search, TrendingUp, Grid3X3, List, RefreshCw, Sparkles, Activity, DollarSign, Zap } from 'lucide-react'
-import { tokenApi } from '@/lib/api'
+import { apiUtils, tokenApi } from '@/lib/api'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { useRouter } from 'next/navigation'
 
@@ -19,6 +19,8 @@ interface Token {
   description?: string
   imageUrl?: string
   bannerUrl?: string
+  imageThumbUrl?: string | null
+  imageCardUrl?: string | null
   tokenAddress: string
   creatorAddress: string
   bondingCurveAddress: string
@@ -122,7 +124,7 @@ export default function AdvancedPage() {
         setTokens(filteredTokens)
         setError(null)
       } else {
-        setError(data.error || 'Failed to load tokens')
+        setError(apiUtils.formatError(data))
         setTokens([])
       }
     } catch (error) {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { requireAdmin } from '@/lib/admin'
+import { handleRouteError, parseBody } from '@/lib/apiResponse'
+import { describeRules, parseRuleWeights } from '@/lib/rugRuleConfig'
+import { rugRuleWeightsBody } from '@/lib/schemas'
+
+/**
+ * Rug score rules with their default and effective weights (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    return NextResponse.json({
+      success: true,
+      data: await describeRules()
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch rug score rules')
+  }
+}
+
+/**
+ * Change rule weights (admin only). Body: `{ weights: { [ruleId]: number | null } }`;
+ * null restores a rule's default. Rules not mentioned keep their weight.
+ * Stored scores pick up new weights at their next recompute.
+ */
+export async function PUT(request: NextRequest) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const { weights } = await parseBody(request, rugRuleWeightsBody)
+    const updates = parseRuleWeights(weights)
+
+    await prisma.$transaction(
+      Object.entries(updates).map(([ruleId, weight]) =>
+        weight === null
+          ? prisma.rugRuleWeight.deleteMany({ where: { ruleId } })
+          : prisma.rugRuleWeight.upsert({
+            where: { ruleId },
+            create: { ruleId, weight },
+            update: { weight }
+          })
+      )
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: await describeRules()
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update rug score rules')
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { prisma } from '@/lib/database'
+import { connection } from '@/lib/solana'
+import { getPayerKeypair } from '@/lib/treasury'
+import { Ledger } from '@/lib/ledger'
+import { requireAdmin } from '@/lib/admin'
+import { fieldError, handleRouteError, parseBody, parseQuery } from '@/lib/apiResponse'
+import { treasuryAdjustmentBody, treasuryReportQuery } from '@/lib/schemas'
+
+// Ledger and chain agree if they differ by less than a lamport
+const RECONCILE_TOLERANCE = 1 / LAMPORTS_PER_SOL
+
+type PeriodRow = {
+  period: Date
+  eventType: string
+  debit: number | null
+  credit: number | null
+}
+
+/**
+ * Treasury report (admin only): opening and closing treasury balance per period,
+ * movements by event type, a trial balance of every ledger account, and a
+ * reconciliation of the ledger against the payer key's on-chain balance.
+ *
+ * Query: period=day|week|month (default month), from, to (ISO dates;
+ * defaults to the start of the current month until now)
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const query = parseQuery(request, treasuryReportQuery)
+    const { period } = query
+
+    const now = new Date()
+    const from = query.from || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+    const to = query.to || now
+
+    if (from >= to) {
+      throw fieldError('from', 'Must be before to')
+    }
+
+    const opening = await prisma.ledgerEntry.aggregate({
+      where: { account: 'TREASURY', createdAt: { lt: from } },
+      _sum: { debit: true, credit: true }
+    })
+    let balance = (opening._sum.debit || 0) - (opening._sum.credit || 0)
+
+    const rows: PeriodRow[] = await prisma.$queryRaw`
+      SELECT date_trunc(${period}, "createdAt") AS "period",
+             "eventType"::text AS "eventType",
+             SUM("debit") AS "debit",
+             SUM("credit") AS "credit"
+      FROM "ledger_entries"
+      WHERE "account" = 'TREASURY' AND "createdAt" >= ${from} AND "createdAt" < ${to}
+      GROUP BY 1, 2
+      ORDER BY 1
+    `
+
+    const byPeriod = new Map<string, { inflows: number; outflows: number; byEvent: Record<string, number> }>()
+    for (const row of rows) {
+      const key = new Date(row.period).toISOString()
+      const entry = byPeriod.get(key) || { inflows: 0, outflows: 0, byEvent: {} }
+      const debit = Number(row.debit || 0)
+      const credit = Number(row.credit || 0)
+      entry.inflows += debit
+      entry.outflows += credit
+      entry.byEvent[row.eventType] = (entry.byEvent[row.eventType] || 0) + debit - credit
+      byPeriod.set(key, entry)
+    }
+
+    const periods = Array.from(byPeriod.entries()).map(([start, entry]) => {
+      const openingBalance = balance
+      balance += entry.inflows - entry.outflows
+      return {
+        start,
+        openingBalance,
+        inflows: entry.inflows,
+        outflows: entry.outflows,
+        netChange: entry.inflows - entry.outflows,
+        closingBalance: balance,
+        byEvent: entry.byEvent
+      }
+    })
+
+    const accounts = await Ledger.trialBalance(to)
+    const totalDebits = accounts.reduce((sum: number, account: any) => sum + account.debits, 0)
+    const totalCredits = accounts.reduce((sum: number, account: any) => sum + account.credits, 0)
+
+    // Reconcile the all-time ledger treasury balance with what the payer key holds now
+    const payer = getPayerKeypair().publicKey
+    const ledgerBalance = (await Ledger.trialBalance())
+      .find((account: any) => account.account === 'TREASURY')?.balance || 0
+    const onChainBalance = (await connection.getBalance(payer, 'confirmed')) / LAMPORTS_PER_SOL
+    const difference = onChainBalance - ledgerBalance
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        treasuryAddress: payer.toBase58(),
+        period,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        openingBalance: (opening._sum.debit || 0) - (opening._sum.credit || 0),
+        closingBalance: balance,
+        periods,
+        trialBalance: {
+          accounts,
+          totalDebits,
+          totalCredits,
+          balanced: Math.abs(totalDebits - totalCredits) < RECONCILE_TOLERANCE
+        },
+        reconciliation: {
+          ledgerBalance,
+          onChainBalance,
+          difference,
+          reconciled: Math.abs(difference) < RECONCILE_TOLERANCE,
+          checkedAt: new Date().toISOString()
+        }
+      }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to build treasury report')
+  }
+}
+
+/**
+ * Book a manual treasury adjustment against owner equity (admin only), e.g. the
+ * opening balance or a top-up of the payer key. Positive amounts add SOL.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const { amount, memo, signature } = await parseBody(request, treasuryAdjustmentBody)
+
+    const journalId = await Ledger.post(prisma, {
+      eventType: 'ADJUSTMENT',
+      signature: signature || null,
+      memo,
+      lines: amount > 0
+        ? [
+            { account: 'TREASURY', debit: amount },
+            { account: 'OWNER_EQUITY', credit: amount }
+          ]
+        : [
+            { account: 'OWNER_EQUITY', debit: -amount },
+            { account: 'TREASURY', credit: -amount }
+          ]
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { journalId, amount, memo }
+    }, { status: 201 })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to record adjustment')
+  }
+}
@@ -0,0 +1,56 @@
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { buildSignInMessage } from '@/lib/messages'
+import { handleRouteError, parseBody } from '@/lib/apiResponse'
+import { nonceBody } from '@/lib/schemas'
+import { rateLimit, rateLimitResponse, withRateLimitHeaders } from '@/lib/rateLimit'
+
+// How long the wallet has to sign the challenge
+const NONCE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Issue a single-use sign-in challenge for a wallet. The returned message
+ * is what the wallet must sign and pass to /api/auth/verify.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { address } = await parseBody(request, nonceBody)
+
+    const limit = rateLimit(request, 'auth:nonce', address)
+    if (!limit.allowed) return rateLimitResponse(limit)
+
+    // Challenges past their expiry can no longer be verified; used ones are
+    // rejected by verify either way, so neither is worth keeping
+    await prisma.authNonce.deleteMany({
+      where: { OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }] }
+    })
+
+    const nonce = randomBytes(16).toString('hex')
+    const issuedAt = new Date()
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS)
+    const message = buildSignInMessage({
+      domain: request.headers.get('host') || 'localhost',
+      address,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString()
+    })
+
+    await prisma.authNonce.create({
+      data: { nonce, address, message, expiresAt }
+    })
+
+    return withRateLimitHeaders(NextResponse.json({
+      success: true,
+      data: {
+        nonce,
+        message,
+        expiresAt: expiresAt.toISOString()
+      }
+    }), limit)
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to create sign-in challenge')
+  }
+}
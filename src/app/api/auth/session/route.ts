@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clearSessionCookie, getSessionAddress } from '@/lib/session'
+
+/**
+ * Wallet the caller is signed in as, or null
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    success: true,
+    data: { address: getSessionAddress(request) }
+  })
+}
+
+/**
+ * Sign out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({
+    success: true,
+    data: { address: null }
+  })
+  clearSessionCookie(response)
+
+  return response
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { verifyWalletSignature } from '@/lib/walletAuth'
+import { setSessionCookie } from '@/lib/session'
+import { errorResponse, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { verifySignInBody } from '@/lib/schemas'
+
+/**
+ * Check the wallet's signature of a sign-in challenge and start an
+ * HTTP-only session for it. Each nonce can be used once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { address, nonce, signature } = await parseBody(request, verifySignInBody)
+
+    const challenge = await prisma.authNonce.findUnique({
+      where: { nonce }
+    })
+
+    if (!challenge || challenge.address !== address) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Unknown sign-in challenge', 401)
+    }
+
+    if (challenge.usedAt || challenge.expiresAt < new Date()) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Sign-in challenge has expired, please try again', 401)
+    }
+
+    if (!verifyWalletSignature(address, challenge.message, signature)) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Signature does not match the wallet', 401)
+    }
+
+    // Consume the nonce; a concurrent verify with the same nonce loses here
+    const consumed = await prisma.authNonce.updateMany({
+      where: { nonce, usedAt: null },
+      data: { usedAt: new Date() }
+    })
+
+    if (consumed.count === 0) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Sign-in challenge was already used', 401)
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: { address }
+    })
+    setSessionCookie(response, address)
+
+    return response
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to verify sign-in')
+  }
+}
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-import { TokenUtils } from '@/lib/solana'
+import { requireAdmin } from '@/lib/admin'
+import { Ledger } from '@/lib/ledger'
+import { check, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { creatorParams, creditCreatorFeesBody } from '@/lib/schemas'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ creatorAddress: string }> }
 ) {
   try {
-    const { creatorAddress } = await params
-
-    if (!TokenUtils.isValidSolanaAddress(creatorAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid Solana address' },
-        { status: 400 }
-      )
-    }
+    const { creatorAddress } = check(creatorParams, await params)
 
     // Get all creator fees for this address
     const creatorFees = await prisma.creatorFee.findMany({
@@ -25,7 +21,8 @@ export async function GET(
     // Calculate totals with proper typing
     const totalEarned = creatorFees.reduce((sum: number, fee: any) => sum + Number(fee.totalFees), 0)
     const totalClaimed = creatorFees.reduce((sum: number, fee: any) => sum + Number(fee.claimedFees), 0)
-    const availableToClaim = totalEarned - totalClaimed
+    const totalPending = creatorFees.reduce((sum: number, fee: any) => sum + Number(fee.pendingFees), 0)
+    const availableToClaim = totalEarned - totalClaimed - totalPending
 
     // Get token information for each fee record
     const feeDetails = await Promise.all(
@@ -49,7 +46,8 @@ export async function GET(
           tokenSymbol: tokenInfo?.symbol || 'UNK',
           totalFees: Number(fee.totalFees),
           claimedFees: Number(fee.claimedFees),
-          availableFees: Number(fee.totalFees) - Number(fee.claimedFees),
+          pendingFees: Number(fee.pendingFees),
+          availableFees: Number(fee.totalFees) - Number(fee.claimedFees) - Number(fee.pendingFees),
           lastClaimedAt: fee.lastClaimedAt,
           createdAt: fee.createdAt,
           updatedAt: fee.updatedAt
@@ -69,6 +67,7 @@ export async function GET(
         summary: {
           totalEarned,
           totalClaimed,
+          totalPending,
           availableToClaim,
           activeTokens,
           tokensWithClaimableFees,
@@ -79,66 +78,59 @@ export async function GET(
     })
 
   } catch (error) {
-    console.error('Get creator fees error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch creator fees' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch creator fees')
   }
 }
 
-// Optional: Add PUT endpoint to manually update fees (for admin purposes)
+// Manually credit fees (admin only). Credited fees are paid out in real SOL
+// by claims, so a creator's own session must not be enough to call this.
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ creatorAddress: string }> }
 ) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
   try {
-    const { creatorAddress } = await params
-    const body = await request.json()
-    
-    const { tokenAddress, additionalFees } = body
-
-    if (!TokenUtils.isValidSolanaAddress(creatorAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid creator address' },
-        { status: 400 }
-      )
-    }
-
-    if (!TokenUtils.isValidSolanaAddress(tokenAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid token address' },
-        { status: 400 }
-      )
-    }
-
-    if (!additionalFees || additionalFees <= 0) {
-      return NextResponse.json(
-        { success: false, error: 'Additional fees must be positive' },
-        { status: 400 }
-      )
-    }
-
-    // Update or create creator fee record
-    const updatedFee = await prisma.creatorFee.upsert({
-      where: {
-        creatorAddress_tokenAddress: {
+    const { creatorAddress } = check(creatorParams, await params)
+    const { tokenAddress, additionalFees } = await parseBody(request, creditCreatorFeesBody)
+
+    const token = await prisma.token.findUnique({
+      where: { tokenAddress },
+      select: { id: true }
+    })
+
+    // The credit and its journal are written together so claimable fees match the books
+    const { updatedFee, journalId } = await prisma.$transaction(async (tx: any) => {
+      // Update or create creator fee record
+      const updatedFee = await tx.creatorFee.upsert({
+        where: {
+          creatorAddress_tokenAddress: {
+            creatorAddress,
+            tokenAddress
+          }
+        },
+        update: {
+          totalFees: {
+            increment: additionalFees
+          },
+          updatedAt: new Date()
+        },
+        create: {
           creatorAddress,
-          tokenAddress
+          tokenAddress,
+          totalFees: additionalFees,
+          claimedFees: 0
         }
-      },
-      update: {
-        totalFees: {
-          increment: additionalFees
-        },
-        updatedAt: new Date()
-      },
-      create: {
+      })
+
+      const journalId = await Ledger.recordCreatorCredit(tx, {
         creatorAddress,
-        tokenAddress,
-        totalFees: additionalFees,
-        claimedFees: 0
-      }
+        tokenId: token?.id,
+        amount: additionalFees
+      })
+
+      return { updatedFee, journalId }
     })
 
     return NextResponse.json({
@@ -149,15 +141,12 @@ export async function PUT(
         previousTotal: Number(updatedFee.totalFees) - additionalFees,
         additionalFees,
         newTotal: Number(updatedFee.totalFees),
-        availableToClaim: Number(updatedFee.totalFees) - Number(updatedFee.claimedFees)
+        availableToClaim: Number(updatedFee.totalFees) - Number(updatedFee.claimedFees),
+        journalId
       }
     })
 
   } catch (error) {
-    console.error('Update creator fees error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to update creator fees' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to update creator fees')
   }
 }
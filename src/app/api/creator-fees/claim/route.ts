@@ -1,124 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-
-// Simple Solana address validation (you can create a more robust one)
-function isValidSolanaAddress(address: string): boolean {
-  // Basic validation - Solana addresses are base58 encoded and typically 32-44 characters
-  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)
-}
-
-// Define the CreatorFee type based on your Prisma schema
-type CreatorFee = {
-  id: string
-  creatorAddress: string
-  tokenAddress: string
-  totalFees: number
-  claimedFees: number
-  lastClaimedAt: Date | null
-  createdAt: Date
-  updatedAt: Date
-}
-
+import { processClaim, recoverStaleClaims, reserveClaim } from '@/lib/claims'
+import { buildClaimMessage } from '@/lib/messages'
+import { isFreshSignature, verifyWalletSignature } from '@/lib/walletAuth'
+import { requireWallet } from '@/lib/session'
+import { check, errorResponse, handleRouteError, parseQuery, readJson } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { claimFeesBody, creatorFeesQuery } from '@/lib/schemas'
+
+// Signed claim messages are accepted for this long after they were issued
+const CLAIM_SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000
+
+// Pays the creator's claimable fees from the treasury. The caller signs a claim
+// message with the creator wallet; retrying with the same idempotency key
+// resumes the same claim instead of paying again.
 export async function POST(request: NextRequest) {
   try {
-    const { creatorAddress, tokenAddress } = await request.json()
+    const body = await readJson(request)
+    const { creatorAddress, tokenAddress, idempotencyKey, issuedAt, signature } = check(claimFeesBody, {
+      ...body,
+      idempotencyKey: body.idempotencyKey || request.headers.get('idempotency-key')
+    })
 
-    if (!isValidSolanaAddress(creatorAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid creator address' },
-        { status: 400 }
-      )
-    }
+    const denied = requireWallet(request, creatorAddress)
+    if (denied) return denied
 
-    if (tokenAddress && !isValidSolanaAddress(tokenAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid token address' },
-        { status: 400 }
-      )
+    if (!isFreshSignature(issuedAt, CLAIM_SIGNATURE_MAX_AGE_MS)) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Claim signature has expired, please sign again', 401)
     }
 
-    let whereClause: any = { 
-      creatorAddress,
-      totalFees: { gt: 0 }
-    }
-    
-    if (tokenAddress) {
-      whereClause.tokenAddress = tokenAddress
+    const message = buildClaimMessage({ creatorAddress, tokenAddress, idempotencyKey, issuedAt })
+    if (!verifyWalletSignature(creatorAddress, message, signature)) {
+      return errorResponse(ErrorCode.UNAUTHENTICATED, 'Signature was not made by the creator wallet', 401)
     }
 
-    // Get fees to claim - find records where totalFees > claimedFees
-    const feesToClaim: CreatorFee[] = await prisma.creatorFee.findMany({
-      where: whereClause
-    })
-
-    if (feesToClaim.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'No fee records found for this creator' },
-        { status: 400 }
-      )
-    }
+    // Settle anything an earlier, interrupted request left half done
+    await recoverStaleClaims(creatorAddress)
 
-    // Filter fees that have claimable amounts
-    const claimableFees = feesToClaim.filter((fee: CreatorFee) => fee.totalFees > fee.claimedFees)
+    const claim = await processClaim(await reserveClaim(idempotencyKey, creatorAddress, tokenAddress))
 
-    if (claimableFees.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'No fees available to claim' },
-        { status: 400 }
-      )
+    if (claim.status === 'FAILED') {
+      return errorResponse(ErrorCode.CLAIM_FAILED, 'Claim transfer failed, fees were released', 502, {
+        details: claim.error
+      })
     }
 
-    let totalClaimAmount = 0
-    const claimResults = []
-
-    // Process each fee claim
-    for (const fee of claimableFees) {
-      const availableAmount = fee.totalFees - fee.claimedFees
-      if (availableAmount > 0) {
-        totalClaimAmount += availableAmount
-
-        // Update the fee record to mark as claimed
-        const updatedFee = await prisma.creatorFee.update({
-          where: { id: fee.id },
-          data: {
-            claimedFees: fee.totalFees, // Set claimed to total (fully claimed)
-            lastClaimedAt: new Date()
-          }
-        })
-
-        claimResults.push({
-          tokenAddress: fee.tokenAddress,
-          claimedAmount: availableAmount,
-          totalFees: fee.totalFees,
-          previouslyClaimed: fee.claimedFees
-        })
-      }
+    const data = {
+      claimId: claim.id,
+      idempotencyKey: claim.idempotencyKey,
+      status: claim.status,
+      creatorAddress,
+      totalClaimed: claim.amount,
+      claimedFees: claim.allocations,
+      transactionSignature: claim.signature,
+      claimedAt: claim.confirmedAt
     }
 
-    // In a real implementation, you would:
-    // 1. Create and send a Solana transaction to transfer SOL to creator
-    // 2. Wait for confirmation
-    // 3. Return the transaction signature
-
-    const mockSignature = `claim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    // Still confirming: the client retries with the same key to learn the outcome
+    if (claim.status !== 'CONFIRMED') {
+      return NextResponse.json({ success: true, data }, { status: 202 })
+    }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        creatorAddress,
-        totalClaimed: totalClaimAmount,
-        claimedFees: claimResults,
-        transactionSignature: mockSignature,
-        claimedAt: new Date().toISOString()
-      }
-    })
+    return NextResponse.json({ success: true, data })
 
   } catch (error) {
-    console.error('Claim creator fees error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to claim creator fees' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to claim creator fees')
   }
 }
 
@@ -128,6 +74,7 @@ type SelectedCreatorFee = {
   tokenAddress: string
   totalFees: number
   claimedFees: number
+  pendingFees: number
   lastClaimedAt: Date | null
   createdAt: Date
 }
@@ -135,25 +82,10 @@ type SelectedCreatorFee = {
 // GET endpoint to check claimable fees before claiming
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const creatorAddress = searchParams.get('creatorAddress')
-    const tokenAddress = searchParams.get('tokenAddress')
-
-    if (!creatorAddress || !isValidSolanaAddress(creatorAddress)) {
-      return NextResponse.json(
-        { success: false, error: 'Valid creator address is required' },
-        { status: 400 }
-      )
-    }
+    const { creatorAddress, tokenAddress } = parseQuery(request, creatorFeesQuery)
 
     let whereClause: any = { creatorAddress }
     if (tokenAddress) {
-      if (!isValidSolanaAddress(tokenAddress)) {
-        return NextResponse.json(
-          { success: false, error: 'Invalid token address' },
-          { status: 400 }
-        )
-      }
       whereClause.tokenAddress = tokenAddress
     }
 
@@ -165,6 +97,7 @@ export async function GET(request: NextRequest) {
         tokenAddress: true,
         totalFees: true,
         claimedFees: true,
+        pendingFees: true,
         lastClaimedAt: true,
         createdAt: true
       },
@@ -173,13 +106,14 @@ export async function GET(request: NextRequest) {
 
     let totalClaimable = 0
     const feeBreakdown = creatorFees.map((fee: SelectedCreatorFee) => {
-      const claimableAmount = Math.max(0, fee.totalFees - fee.claimedFees)
+      const claimableAmount = Math.max(0, fee.totalFees - fee.claimedFees - fee.pendingFees)
       totalClaimable += claimableAmount
       
       return {
         tokenAddress: fee.tokenAddress,
         totalFees: fee.totalFees,
         claimedFees: fee.claimedFees,
+        pendingFees: fee.pendingFees,
         claimableAmount,
         lastClaimedAt: fee.lastClaimedAt,
         isFullyClaimed: fee.totalFees <= fee.claimedFees
@@ -198,10 +132,6 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
-    console.error('Get creator fees error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch creator fees' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch creator fees')
   }
 }
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { check, errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { addressParams } from '@/lib/schemas'
+import { getCreatorProfile } from '@/lib/creatorReputation'
+
+/**
+ * Every token a wallet launched, how the wallet traded each one and the
+ * reputation score its record earns
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const { address } = check(addressParams, await params)
+
+    const profile = await getCreatorProfile(address)
+    if (!profile) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'No tokens launched by this address', 404)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: profile
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch creator profile')
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { getFeeSchedule, parseFeeRates } from '@/lib/fees'
+import { requireAdmin } from '@/lib/admin'
+import { handleRouteError, parseBody } from '@/lib/apiResponse'
+import { feeRatesBody } from '@/lib/schemas'
+
+/**
+ * Global default fee schedule, used by every token without its own override
+ */
+export async function GET() {
+  try {
+    const schedule = await getFeeSchedule()
+
+    return NextResponse.json({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch fee schedule')
+  }
+}
+
+/**
+ * Update the global default fee schedule (admin only)
+ */
+export async function PUT(request: NextRequest) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const body = await parseBody(request, feeRatesBody)
+    const rates = parseFeeRates(body, await getFeeSchedule())
+
+    // The global row is the one without a token; NULLs never collide on the unique index
+    const existing = await prisma.feeSchedule.findFirst({
+      where: { tokenId: null }
+    })
+
+    if (existing) {
+      await prisma.feeSchedule.update({
+        where: { id: existing.id },
+        data: rates
+      })
+    } else {
+      await prisma.feeSchedule.create({
+        data: rates
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...rates, source: 'global' }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update fee schedule')
+  }
+}
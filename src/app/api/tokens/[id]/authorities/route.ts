@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenAccountNotFoundError, TokenInvalidAccountOwnerError } from '@solana/spl-token'
+import { prisma } from '@/lib/database'
+import { getMintAuthorities } from '@/lib/mintAuthorities'
+import { errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+/**
+ * Current mint and freeze authorities, read from the mint account on chain
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const token = await prisma.token.findUnique({
+      where: { id },
+      select: { tokenAddress: true }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    let authorities
+    try {
+      authorities = await getMintAuthorities(token.tokenAddress)
+    } catch (error) {
+      if (error instanceof TokenAccountNotFoundError || error instanceof TokenInvalidAccountOwnerError) {
+        return errorResponse(ErrorCode.NOT_FOUND, 'Mint account not found on chain', 404)
+      }
+      return errorResponse(ErrorCode.BLOCKCHAIN_ERROR, 'Could not read the mint account', 502)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: authorities
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch token authorities')
+  }
+}
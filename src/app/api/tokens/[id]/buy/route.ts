@@ -1,34 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-import { BondingCurve, connection } from '@/lib/solana'
-import { 
-  PublicKey, 
-  Transaction, 
-  SystemProgram,
-  sendAndConfirmTransaction,
-  LAMPORTS_PER_SOL
-} from '@solana/web3.js'
-import { 
-  getOrCreateAssociatedTokenAccount,
-  createTransferInstruction,
-  getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction
-} from '@solana/spl-token'
-
-function getPayerKeypair() {
-  const { Keypair } = require('@solana/web3.js')
-  const privateKeyString = process.env.SOLANA_PRIVATE_KEY
-  if (!privateKeyString) {
-    throw new Error('SOLANA_PRIVATE_KEY environment variable is required')
-  }
-  
-  try {
-    const privateKey = new Uint8Array(JSON.parse(privateKeyString))
-    return Keypair.fromSecretKey(privateKey)
-  } catch (error) {
-    throw new Error('Invalid SOLANA_PRIVATE_KEY format')
-  }
-}
+import { TradeQuote, quoteTrade, redeemQuote } from '@/lib/quotes'
+import { FeeEngine, getFeeSchedule } from '@/lib/fees'
+import { requireWallet } from '@/lib/session'
+import { rateLimit, rateLimitResponse, withRateLimitHeaders } from '@/lib/rateLimit'
+import { getPayerKeypair } from '@/lib/treasury'
+import { buildBuyTransaction, curveVaultOf, serializeForWallet, serializeMessage } from '@/lib/trading'
+import { errorResponse, fieldError, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { buyBody } from '@/lib/schemas'
+import { PublicKey } from '@solana/web3.js'
 
 export async function POST(
   request: NextRequest,
@@ -36,20 +17,32 @@ export async function POST(
 ) {
   try {
     const { id } = await params
-    const { solAmount, slippage = 5, buyerAddress } = await request.json()
-    
-    if (!solAmount || solAmount <= 0) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid SOL amount' },
-        { status: 400 }
-      )
+    const {
+      solAmount: solIn,
+      tokenAmount: exactTokens,
+      exactOut,
+      maxSolAmount,
+      slippage,
+      buyerAddress,
+      referrerAddress,
+      quoteId
+    } = await parseBody(request, buyBody)
+
+    // Exact-output buys fix the tokens received and pay whatever the curve asks, up to maxSolAmount
+    const amount = exactOut ? exactTokens : solIn
+
+    if (amount === undefined) {
+      throw fieldError(exactOut ? 'tokenAmount' : 'solAmount', 'Required')
     }
 
-    if (!buyerAddress) {
-      return NextResponse.json(
-        { success: false, error: 'Buyer address is required' },
-        { status: 400 }
-      )
+    const denied = requireWallet(request, buyerAddress)
+    if (denied) return denied
+
+    const limit = rateLimit(request, 'buy', buyerAddress)
+    if (!limit.allowed) return rateLimitResponse(limit)
+
+    if (referrerAddress === buyerAddress) {
+      throw fieldError('referrerAddress', 'Must be a different wallet than the buyer')
     }
 
     // Get token from database
@@ -58,155 +51,99 @@ export async function POST(
     })
 
     if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Token not found' },
-        { status: 404 }
-      )
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     if (token.isGraduated) {
-      return NextResponse.json(
-        { success: false, error: 'Token has graduated - use DEX instead' },
-        { status: 400 }
-      )
+      return errorResponse(ErrorCode.TOKEN_GRADUATED, 'Token has graduated - use DEX instead', 400)
     }
 
-    // Calculate tokens to receive based on bonding curve
-    const currentSupply = Number(token.currentSupply)
-    const tokensToReceive = BondingCurve.calculateTokensForSol(solAmount, currentSupply)
-    const newSupply = currentSupply + tokensToReceive
-    const newPrice = BondingCurve.calculatePrice(newSupply)
-    const newMarketCap = token.marketCap + solAmount
+    // A signed quote fixes the output; otherwise price the trade now
+    const feeRates = await getFeeSchedule(token.id)
+    const quote: TradeQuote = quoteId
+      ? redeemQuote(token, quoteId, 'BUY', amount, feeRates, exactOut)
+      : quoteTrade(token, 'BUY', amount, slippage, feeRates, exactOut)
+
+    const {
+      inputAmount: solAmount,
+      outputAmount: tokensToReceive,
+      effectivePrice: actualPrice,
+      priceImpact,
+      fees: feeAmount
+    } = quote
+
+    if (tokensToReceive <= 0) {
+      throw fieldError('solAmount', 'Too small to buy any tokens')
+    }
 
-    // Check slippage
-    const expectedPrice = BondingCurve.calculatePrice(currentSupply)
-    const actualPrice = solAmount / tokensToReceive
-    const priceImpact = Math.abs((actualPrice - expectedPrice) / expectedPrice) * 100
-
-    if (priceImpact > slippage) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Price impact ${priceImpact.toFixed(2)}% exceeds slippage tolerance ${slippage}%`,
-          priceImpact
-        },
-        { status: 400 }
+    if (exactOut && maxSolAmount !== undefined && solAmount > maxSolAmount) {
+      return errorResponse(
+        ErrorCode.MAX_INPUT_EXCEEDED,
+        `Buying ${tokensToReceive} tokens costs ${solAmount} SOL, above your maximum of ${maxSolAmount} SOL`,
+        400,
+        { solAmount }
       )
     }
 
-    // Perform Solana transaction
-    const payer = getPayerKeypair()
-    const buyerPublicKey = new PublicKey(buyerAddress)
-    const tokenMint = new PublicKey(token.tokenAddress)
-
-    // Get or create buyer's token account
-    const buyerTokenAccount = await getAssociatedTokenAddress(
-      tokenMint,
-      buyerPublicKey
-    )
-
-    const transaction = new Transaction()
-
-    // Check if buyer's token account exists, if not create it
-    try {
-      await connection.getAccountInfo(buyerTokenAccount)
-    } catch {
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          payer.publicKey,
-          buyerTokenAccount,
-          buyerPublicKey,
-          tokenMint
-        )
+    // Check slippage
+    if (priceImpact > quote.slippage) {
+      return errorResponse(
+        ErrorCode.SLIPPAGE_EXCEEDED,
+        `Price impact ${priceImpact.toFixed(2)}% exceeds slippage tolerance ${quote.slippage}%`,
+        400,
+        { priceImpact }
       )
     }
 
-    // Transfer SOL from buyer to bonding curve (treasury)
-    transaction.add(
-      SystemProgram.transfer({
-        fromPubkey: buyerPublicKey,
-        toPubkey: payer.publicKey, // Treasury receives SOL
-        lamports: solAmount * LAMPORTS_PER_SOL
-      })
-    )
-
-    // Note: In a real implementation, you'd need the buyer to sign this transaction
-    // For demo purposes, we'll simulate the token transfer
-    
-    const signature = `simulated_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    // Update database
-    const [updatedToken, transaction_record] = await Promise.all([
-      prisma.token.update({
-        where: { id },
-        data: {
-          currentSupply: newSupply,
-          price: newPrice,
-          marketCap: newMarketCap
-        }
-      }),
-      prisma.transaction.create({
-        data: {
-          tokenId: id,
-          userAddress: buyerAddress,
-          type: 'BUY',
-          amount: tokensToReceive,
-          solAmount: solAmount,
-          price: actualPrice,
-          signature: signature
-        }
-      })
-    ])
-
-    // Update creator fees (1% fee)
-    const creatorFee = solAmount * 0.01
-    await prisma.creatorFee.upsert({
-      where: {
-        creatorAddress_tokenAddress: {
-          creatorAddress: token.creatorAddress,
-          tokenAddress: token.tokenAddress
-        }
-      },
-      create: {
-        creatorAddress: token.creatorAddress,
-        tokenAddress: token.tokenAddress,
-        totalFees: creatorFee
-      },
-      update: {
-        totalFees: { increment: creatorFee }
-      }
+    const feeSplit = FeeEngine.splitFee(feeRates, feeAmount, Boolean(referrerAddress))
+
+    // Build the transaction with the treasury's half signed; the buyer signs in their wallet
+    const prepared = await buildBuyTransaction({
+      treasury: getPayerKeypair(),
+      buyer: new PublicKey(buyerAddress),
+      mint: new PublicKey(token.tokenAddress),
+      solAmount,
+      tokenAmount: tokensToReceive,
+      vault: curveVaultOf(token)
     })
 
-    // Check if token should graduate to DEX
-    const GRADUATION_MARKET_CAP = 30 // 30 SOL
-    if (newMarketCap >= GRADUATION_MARKET_CAP && !token.isGraduated) {
-      await prisma.token.update({
-        where: { id },
-        data: {
-          isGraduated: true,
-          graduatedAt: new Date()
-        }
-      })
-    }
+    const intent = await prisma.tradeIntent.create({
+      data: {
+        tokenId: id,
+        userAddress: buyerAddress,
+        type: 'BUY',
+        amount: tokensToReceive,
+        solAmount,
+        price: actualPrice,
+        feeAmount,
+        message: serializeMessage(prepared.transaction),
+        blockhash: prepared.blockhash,
+        lastValidBlockHeight: prepared.lastValidBlockHeight,
+        slippage: quote.slippage,
+        exactOut: quote.exactOut,
+        referrerAddress: referrerAddress || null,
+        platformFee: feeSplit.platform,
+        creatorFee: feeSplit.creator,
+        referrerFee: feeSplit.referrer
+      }
+    })
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       data: {
-        tokensReceived: tokensToReceive,
-        solSpent: solAmount,
-        newPrice: newPrice,
-        newMarketCap: newMarketCap,
-        priceImpact: priceImpact,
-        signature: signature,
-        transaction: transaction_record
+        intentId: intent.id,
+        transaction: serializeForWallet(prepared.transaction),
+        lastValidBlockHeight: prepared.lastValidBlockHeight,
+        exactOut: quote.exactOut,
+        tokensToReceive,
+        solAmount,
+        price: actualPrice,
+        priceImpact,
+        priceAfter: quote.priceAfter
       }
-    })
+    }), limit)
 
   } catch (error) {
-    console.error('Buy token error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to buy token' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to prepare buy transaction')
   }
 }
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
+import { getFeeSchedule, parseFeeRates } from '@/lib/fees'
+import { requireAdmin } from '@/lib/admin'
+import { errorResponse, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { feeRatesBody } from '@/lib/schemas'
 
 export async function GET(
   request: NextRequest,
@@ -17,18 +22,87 @@ export async function GET(
     })
 
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
-    // Return default platform fees since buyFee, sellFee, platformFee don't exist in Token model
+    // Same schedule the quote, buy and sell routes charge
+    const schedule = await getFeeSchedule(token.id)
+
+    return NextResponse.json({
+      success: true,
+      data: schedule
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch fees')
+  }
+}
+
+/**
+ * Set a per-token fee override (admin only). Omitted fields keep the
+ * token's current effective rates.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await parseBody(request, feeRatesBody)
+
+    const token = await prisma.token.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    const rates = parseFeeRates(body, await getFeeSchedule(token.id))
+
+    await prisma.feeSchedule.upsert({
+      where: { tokenId: token.id },
+      create: { tokenId: token.id, ...rates },
+      update: rates
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { ...rates, source: 'token' }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to update fees')
+  }
+}
+
+/**
+ * Remove a token's fee override so it falls back to the global schedule (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    await prisma.feeSchedule.deleteMany({
+      where: { tokenId: id }
+    })
+
     return NextResponse.json({
-      buyFee: 1,
-      sellFee: 1,
-      platformFee: 0.5
+      success: true,
+      data: await getFeeSchedule(id)
     })
 
   } catch (error) {
-    console.error('Error fetching trading fees:', error)
-    return NextResponse.json({ error: 'Failed to fetch fees' }, { status: 500 })
+    return handleRouteError(error, 'Failed to remove fee override')
   }
 }
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
+import { errorResponse, handleRouteError, parseQuery } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { holdersQuery } from '@/lib/schemas'
 
 interface HolderData {
   address: string;
@@ -249,17 +252,13 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const { searchParams } = new URL(request.url)
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
-    
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100)
-    const includeStats = searchParams.get('stats') === 'true'
-    const includeWhalesOnly = searchParams.get('whales') === 'true'
-    const minBalance = parseFloat(searchParams.get('minBalance') || '0')
-    const realtime = searchParams.get('realtime') === 'true'
+    const {
+      limit,
+      stats: includeStats,
+      whales: includeWhalesOnly,
+      minBalance,
+      realtime
+    } = parseQuery(request, holdersQuery)
     
     // Get token info for calculations
     const token = await prisma.token.findUnique({
@@ -275,7 +274,7 @@ export async function GET(
     })
 
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     const totalSupply = parseFloat(token.totalSupply?.toString() || token.currentSupply?.toString() || '1000000')
@@ -436,14 +435,7 @@ export async function GET(
     return res
     
   } catch (error) {
-    console.error('Error fetching holders:', error)
-    
-    return NextResponse.json({
-      success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString()
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to fetch holders')
   }
 }
 
@@ -454,13 +446,6 @@ export async function POST(
 ) {
   try {
     const { id } = await params
-    const body = await request.json()
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
-    
-    const { force = false } = body
     
     // Get token info
     const token = await prisma.token.findUnique({
@@ -474,7 +459,7 @@ export async function POST(
     })
 
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     const totalSupply = parseFloat(token.totalSupply?.toString() || token.currentSupply?.toString() || '1000000')
@@ -521,11 +506,6 @@ export async function POST(
     })
     
   } catch (error) {
-    console.error('Error updating holders:', error)
-    return NextResponse.json({
-      success: false,
-      error: 'Failed to update holders',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to update holders')
   }
 }
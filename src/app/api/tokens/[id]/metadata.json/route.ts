@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { buildOffChainMetadata } from '@/lib/offChainMetadata'
+import { errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+/**
+ * Off-chain token metadata, the URI every metadata account points at.
+ * Served as the bare JSON document wallets expect, not the API envelope.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // On-chain URIs use the mint address; the token id works too
+    const token = await prisma.token.findFirst({
+      where: { OR: [{ id }, { tokenAddress: id }] }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    const { metadata, contentHash } = buildOffChainMetadata(token)
+    const etag = `"${contentHash}"`
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } })
+    }
+
+    return NextResponse.json(metadata, {
+      headers: {
+        ETag: etag,
+        // Short so edits to the token reach wallets quickly
+        'Cache-Control': 'public, max-age=60'
+      }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to fetch token metadata')
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
+import { errorResponse, handleRouteError, parseBody, parseQuery } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { priceHistoryQuery, pricePointBody } from '@/lib/schemas'
+import { BondingCurve } from '@/lib/solana'
 
 interface PricePoint {
   time: string;
@@ -206,13 +210,20 @@ async function getCurrentPrice(tokenId: string): Promise<number> {
       return price > 0 ? price : 0
     }
 
-    // Fallback to token's stored price
+    // Fallback to the spot price on the token's own curve
     const token = await prisma.token.findUnique({
       where: { id: tokenId },
-      select: { price: true }
+      select: {
+        curveType: true,
+        curveParams: true,
+        virtualSolReserves: true,
+        virtualTokenReserves: true,
+        realSolReserves: true,
+        realTokenReserves: true
+      }
     })
 
-    return token ? parseFloat(token.price.toString()) : 0
+    return token ? BondingCurve.forToken(token).priceAt(BondingCurve.reservesOf(token)) : 0
 
   } catch (error) {
     console.error('Error getting current price:', error)
@@ -226,15 +237,7 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const { searchParams } = new URL(request.url)
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
-    
-    const hours = parseInt(searchParams.get('hours') || '24')
-    const realtime = searchParams.get('realtime') === 'true'
-    const granularity = searchParams.get('granularity') || 'auto' // auto, 1m, 5m, 15m, 1h
+    const { hours, realtime, granularity } = parseQuery(request, priceHistoryQuery)
     
     // Get token info
     const token = await prisma.token.findUnique({
@@ -244,12 +247,13 @@ export async function GET(
         name: true,
         symbol: true,
         price: true,
+        curveType: true,
         createdAt: true
       }
     })
     
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
     
     let priceHistory: PricePoint[] = []
@@ -320,6 +324,7 @@ export async function GET(
         meta: {
           tokenSymbol: token.symbol,
           tokenName: token.name,
+          curveType: token.curveType,
           dataSource: source,
           totalPoints: priceHistory.length,
           timeRange: `${hours}h`,
@@ -377,14 +382,7 @@ export async function GET(
     }
     
   } catch (error) {
-    console.error('Error fetching price history:', error)
-    
-    return NextResponse.json({
-      success: false,
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Unknown error',
-      timestamp: new Date().toISOString()
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to fetch price history')
   }
 }
 
@@ -484,17 +482,7 @@ export async function POST(
 ) {
   try {
     const { id } = await params
-    const body = await request.json()
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
-    
-    const { price, volume = 0, timestamp = Date.now() } = body
-    
-    if (!price || price <= 0) {
-      return NextResponse.json({ error: 'Valid price is required' }, { status: 400 })
-    }
+    const { price, volume } = await parseBody(request, pricePointBody)
     
     // Store the real-time price point
     await storePricePoint(id, price, volume)
@@ -520,11 +508,6 @@ export async function POST(
     })
     
   } catch (error) {
-    console.error('Error updating real-time price:', error)
-    return NextResponse.json({
-      success: false,
-      error: 'Failed to update price',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to update price')
   }
 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { quoteTrade, signQuote } from '@/lib/quotes'
+import { getFeeSchedule } from '@/lib/fees'
+import { rateLimit, rateLimitResponse, withRateLimitHeaders } from '@/lib/rateLimit'
+import { errorResponse, fieldError, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { quoteBody } from '@/lib/schemas'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const limit = rateLimit(request, 'quote')
+    if (!limit.allowed) return rateLimitResponse(limit)
+
+    const { inputAmount, outputAmount, isBuying, slippage, exactOut } = await parseBody(request, quoteBody)
+
+    // Exact-output quotes fix what the trader receives instead of what they pay
+    const amount = exactOut ? outputAmount : inputAmount
+
+    if (amount === undefined) {
+      throw fieldError(exactOut ? 'outputAmount' : 'inputAmount', 'Required')
+    }
+
+    // Tokens trade in whole units, and the signed quote must carry the amount that is redeemed
+    if (exactOut === isBuying && !Number.isInteger(amount)) {
+      throw fieldError(exactOut ? 'outputAmount' : 'inputAmount', 'Must be a whole number of tokens')
+    }
+
+    const token = await prisma.token.findUnique({
+      where: { id }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    if (token.isGraduated) {
+      return errorResponse(ErrorCode.TOKEN_GRADUATED, 'Token has graduated - use DEX instead', 400)
+    }
+
+    // Exact curve math and fees, identical to what buy/sell will execute
+    const feeRates = await getFeeSchedule(token.id)
+    const quote = quoteTrade(token, isBuying ? 'BUY' : 'SELL', amount, slippage, feeRates, exactOut)
+
+    if (quote.outputAmount <= 0 || quote.inputAmount <= 0) {
+      throw fieldError(exactOut ? 'outputAmount' : 'inputAmount', 'Too small to trade')
+    }
+
+    return withRateLimitHeaders(NextResponse.json({
+      success: true,
+      data: signQuote(token.id, quote)
+    }), limit)
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to calculate quote')
+  }
+}
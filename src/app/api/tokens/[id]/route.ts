@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-import { RugDetector } from '@/lib/solana'
-import { existsSync } from 'fs'
-import path from 'path'
+import { BondingCurve, Curve, CurveReserves, RugDetector } from '@/lib/solana'
+import { errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { DEMO_MODE, demoHolders, demoTransactions } from '@/lib/demoData'
+import { isStoredUrl, storedUrlExists } from '@/lib/storage'
+import { metadataUriFor } from '@/lib/offChainMetadata'
+import { tryGetMintAuthorities } from '@/lib/mintAuthorities'
+import { collectOnChainSignals } from '@/lib/riskSignals'
+import { getRugScoreTrend } from '@/lib/rugScore'
+import { getRuleWeights } from '@/lib/rugRuleConfig'
+import { getCreatorReputation } from '@/lib/creatorReputation'
 
 // Enhanced serialization with proper type handling
 function serializeBigInt(obj: any): any {
@@ -33,109 +41,12 @@ function serializeBigInt(obj: any): any {
   return obj
 }
 
-// Real-time price calculation with bonding curve simulation
-function calculateRealTimePrice(basePrice: number, marketCap: number, timeVariation: boolean = true): number {
-  const BASE_PRICE = 0.000001 // Starting price in SOL
-  const CURVE_CONSTANT = 0.000000001 // Bonding curve steepness
-  
-  // Base price from bonding curve
-  let calculatedPrice = BASE_PRICE + (marketCap * CURVE_CONSTANT)
-  
-  // Add time-based micro variations for realism (±0.5% every few seconds)
-  if (timeVariation) {
-    const now = Date.now()
-    const variation = Math.sin(now / 10000) * 0.005 // 0.5% max variation
-    calculatedPrice *= (1 + variation)
-  }
-  
-  // Ensure minimum price
-  return Math.max(calculatedPrice, BASE_PRICE)
-}
-
-// Simulate market activity
-function simulateMarketActivity(baseMarketCap: number): {
-  marketCap: number;
-  volume24h: number;
-  transactions24h: number;
-} {
-  const now = Date.now()
-  const hourly = Math.floor(now / (1000 * 60 * 60)) // Changes every hour
-  const daily = Math.floor(now / (1000 * 60 * 60 * 24)) // Changes every day
-  
-  // Pseudo-random but deterministic based on time
-  const marketCapVariation = (Math.sin(hourly * 0.1) * 0.1) + (Math.sin(hourly * 0.037) * 0.05)
-  const volumeVariation = Math.abs(Math.sin(hourly * 0.073)) * 0.5 + 0.1
-  
-  const marketCap = baseMarketCap * (1 + marketCapVariation)
-  const volume24h = marketCap * volumeVariation
-  const transactions24h = Math.floor(volume24h / (baseMarketCap * 0.01)) + Math.floor(Math.random() * 50)
-  
-  return {
-    marketCap: Math.max(marketCap, 0),
-    volume24h: Math.max(volume24h, 0),
-    transactions24h: Math.max(transactions24h, 1)
-  }
-}
-
-// Generate realistic transaction history
-function generateRecentTransactions(tokenSymbol: string, currentPrice: number): any[] {
-  const transactions = []
-  const now = Date.now()
-  
-  for (let i = 0; i < 10; i++) {
-    const timeAgo = Math.random() * 1000 * 60 * 60 * 2 // Within 2 hours
-    const timestamp = new Date(now - timeAgo)
-    const type = Math.random() > 0.5 ? 'buy' : 'sell'
-    
-    // Generate realistic amounts
-    const solAmount = Math.random() * 5 + 0.1 // 0.1 to 5 SOL
-    const priceVariation = (Math.random() - 0.5) * 0.1 // ±5% price variation
-    const price = currentPrice * (1 + priceVariation)
-    const tokenAmount = solAmount / price
-    
-    transactions.push({
-      id: `tx_${i}_${timestamp.getTime()}`,
-      type: type.toUpperCase(),
-      amount: tokenAmount,
-      solAmount: solAmount,
-      userAddress: generateRandomAddress(),
-      timeAgo: formatTimeAgo(timestamp),
-      createdAt: timestamp.toISOString()
-    })
-  }
-  
-  return transactions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-}
-
-// Generate random Solana address
-function generateRandomAddress(): string {
-  const chars = 'ABCDEFGHJKMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz123456789'
-  let result = ''
-  for (let i = 0; i < 44; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length))
-  }
-  return result
-}
-
-// Validate image URL and existence
-function validateAndCheckImageUrl(url: string): boolean {
+// Validate image URL and existence: uploads must be in storage, external URLs are assumed valid
+async function validateAndCheckImageUrl(url: string): Promise<boolean> {
   if (!url) return false
+  if (isStoredUrl(url)) return storedUrlExists(url)
   
-  try {
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      return true
-    }
-    
-    if (url.startsWith('/uploads/')) {
-      const localPath = path.join(process.cwd(), 'public', url)
-      return existsSync(localPath)
-    }
-    
-    return false
-  } catch (error) {
-    console.warn('Error validating image URL:', error)
-    return false
-  }
+  return url.startsWith('http://') || url.startsWith('https://')
 }
 
 // Generate fallback image
@@ -157,210 +68,239 @@ function generateFallbackImage(symbol: string, type: 'logo' | 'banner' = 'logo')
   return `https://ui-avatars.com/api/?name=${encodeURIComponent(symbol.substring(0, 2))}&size=${size}&background=${background}&color=ffffff&bold=true&format=png`
 }
 
-// Calculate bonding curve progress
-function calculateBondingCurveProgress(marketCap: number, graduationThreshold: number = 69000): {
+// Calculate bonding curve progress from the token's curve and stored reserves
+function calculateBondingCurveProgress(curve: Curve, reserves: CurveReserves): {
   progress: number;
   graduationMarketCap: number;
   remaining: number;
+  curveType: string;
+  curveParams: any;
+  reserves: CurveReserves;
+  isComplete: boolean;
 } {
-  const progress = Math.min((marketCap / graduationThreshold) * 100, 100)
-  const remaining = Math.max(graduationThreshold - marketCap, 0)
-  
+  const marketCap = curve.marketCapAt(reserves)
+  const graduationThreshold = BondingCurve.GRADUATION_MARKET_CAP
+
   return {
-    progress,
+    progress: curve.progress(reserves),
     graduationMarketCap: graduationThreshold,
-    remaining
+    remaining: Math.max(graduationThreshold - marketCap, 0),
+    curveType: curve.type,
+    curveParams: curve.params,
+    reserves,
+    isComplete: BondingCurve.isComplete(reserves)
   }
 }
 
+const RECENT_TRANSACTION_LIMIT = 10
+const TOP_HOLDER_LIMIT = 10
+const DAY_MS = 24 * 60 * 60 * 1000
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params
-    
-    if (!id) {
-      return NextResponse.json(
-        { success: false, error: 'Token ID is required' }, 
-        { status: 400 }
-      )
-    }
-    
-    let token
-    let isFromDatabase = true
-    
-    try {
-      // Try to fetch from database first
-      token = await prisma.token.findUnique({
-        where: { id },
-        include: {
-          transactions: {
-            take: 20,
-            orderBy: { createdAt: 'desc' },
-            select: {
-              id: true,
-              type: true,
-              amount: true,
-              solAmount: true,
-              price: true,
-              userAddress: true,
-              createdAt: true
-            }
+    const since = new Date(Date.now() - DAY_MS)
+
+    const token = await prisma.token.findUnique({
+      where: { id },
+      include: {
+        transactions: {
+          take: RECENT_TRANSACTION_LIMIT,
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            type: true,
+            amount: true,
+            solAmount: true,
+            price: true,
+            userAddress: true,
+            createdAt: true
           }
+        },
+        metadataMirrors: {
+          orderBy: { createdAt: 'desc' },
+          select: { provider: true, uri: true, contentHash: true, createdAt: true }
         }
-      })
-    } catch (dbError) {
-      console.warn('Database query failed, using fallback data:', dbError)
-      isFromDatabase = false
-    }
+      }
+    })
 
-    // If token not found in database, create fallback data
     if (!token) {
-      console.log('Token not found in database, creating fallback data for:', id)
-      isFromDatabase = false
-      
-      // Extract potential symbol from ID or use default
-      const potentialSymbol = id.length <= 10 ? id.toUpperCase() : 'UNKNOWN'
-      const baseMarketCap = Math.random() * 50000 + 1000 // Random market cap between 1k-51k
-      
-      token = {
-        id,
-        name: `${potentialSymbol} Token`,
-        symbol: potentialSymbol,
-        description: `Community-driven token on Solana - ${potentialSymbol}`,
-        imageUrl: null,
-        bannerUrl: null,
-        website: null,
-        twitter: null,
-        telegram: null,
-        marketCap: baseMarketCap.toString(),
-        currentSupply: '1000000000',
-        totalSupply: '1000000000',
-        rugScore: Math.floor(Math.random() * 60) + 20, // 20-80 score
-        isGraduated: false,
-        createdAt: new Date(Date.now() - Math.random() * 1000 * 60 * 60 * 24 * 7), // Within last week
-        updatedAt: new Date(),
-        creatorAddress: generateRandomAddress(),
-        transactions: []
-      }
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
+    const [transactionCount, dayTotals, holderRows, priceBefore, firstPriceInDay, authorities, rugScoreTrend] = await Promise.all([
+      prisma.transaction.count({ where: { tokenId: id } }),
+      prisma.transaction.aggregate({
+        where: { tokenId: id, createdAt: { gte: since } },
+        _sum: { solAmount: true },
+        _count: true
+      }),
+      prisma.holder.findMany({
+        where: { tokenId: id },
+        select: { address: true, balance: true, percentage: true }
+      }),
+      // Price change is measured from the last recorded price at least a day old,
+      // or from the first one recorded since for tokens younger than a day
+      prisma.priceHistory.findFirst({
+        where: { tokenId: id, createdAt: { lte: since } },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.priceHistory.findFirst({
+        where: { tokenId: id, createdAt: { gt: since } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      tryGetMintAuthorities(token.tokenAddress),
+      getRugScoreTrend(id)
+    ])
+
     // Serialize BigInt values
     const serializedToken = serializeBigInt(token)
-    
-    // Convert string numbers back to numbers for calculations
-    const baseMarketCap = parseFloat(serializedToken.marketCap?.toString() || '0')
-    const rugScore = parseInt(serializedToken.rugScore?.toString() || '50')
-    const totalSupply = parseFloat(serializedToken.totalSupply?.toString() || '1000000000')
-    const currentSupply = parseFloat(serializedToken.currentSupply?.toString() || totalSupply.toString())
-    
-    // Calculate real-time market data
-    const marketData = simulateMarketActivity(baseMarketCap)
-    const realTimePrice = calculateRealTimePrice(0.000001, marketData.marketCap, true)
-    
-    // Generate risk level
-    const riskLevel = RugDetector.getRiskLevel(rugScore) || 'MEDIUM'
-    
+
+    const price = Number(token.price)
+    const marketCap = Number(token.marketCap)
+    const totalSupply = parseFloat(serializedToken.totalSupply)
+    const currentSupply = parseFloat(serializedToken.currentSupply)
+
+    // Scored live with the current rule weights, so the contributions add up to the score shown
+    const signals = await collectOnChainSignals(token, authorities)
+    const creator = await getCreatorReputation(token.creatorAddress, token.id)
+    const analysis = RugDetector.getDetailedAnalysis(serializedToken, signals, await getRuleWeights(), creator)
+    const rugScore = analysis.score
+    const riskLevel = analysis.riskLevel
+
+    const volume24h = Number(dayTotals._sum.solAmount || 0)
+    const transactions24h = dayTotals._count
+    const basePrice = parseFloat((priceBefore || firstPriceInDay)?.price || '')
+    const priceChange24h = basePrice > 0 ? ((price - basePrice) / basePrice) * 100 : null
+
     // Validate and fix image URLs
     let processedImageUrl = serializedToken.imageUrl
-    if (!processedImageUrl || !validateAndCheckImageUrl(processedImageUrl)) {
+    if (!processedImageUrl || !(await validateAndCheckImageUrl(processedImageUrl))) {
       processedImageUrl = generateFallbackImage(serializedToken.symbol, 'logo')
     }
     
     let processedBannerUrl = serializedToken.bannerUrl
-    if (processedBannerUrl && !validateAndCheckImageUrl(processedBannerUrl)) {
+    if (processedBannerUrl && !(await validateAndCheckImageUrl(processedBannerUrl))) {
       processedBannerUrl = null
     }
-    
-    // Generate recent transactions (mix of real and simulated)
-    const recentTransactions = isFromDatabase && serializedToken.transactions?.length > 0 
-      ? serializedToken.transactions.slice(0, 10).map((tx: any) => ({
-          id: tx.id,
-          type: tx.type.toUpperCase(),
-          amount: parseFloat(tx.amount?.toString() || '0'),
-          solAmount: parseFloat(tx.solAmount?.toString() || tx.price?.toString() || '0'),
-          userAddress: tx.userAddress,
-          timeAgo: formatTimeAgo(tx.createdAt),
-          createdAt: tx.createdAt
-        }))
-      : generateRecentTransactions(serializedToken.symbol, realTimePrice)
+
+    let recentTransactions: any[] = serializedToken.transactions.map((tx: any) => ({
+      id: tx.id,
+      type: tx.type,
+      amount: tx.amount,
+      solAmount: tx.solAmount,
+      userAddress: tx.userAddress,
+      timeAgo: formatTimeAgo(tx.createdAt),
+      createdAt: tx.createdAt
+    }))
+
+    let holders: any[] = holderRows
+      .map((holder: any) => ({
+        address: holder.address,
+        balance: holder.balance,
+        percentage: parseFloat(holder.percentage || '0')
+      }))
+      .sort((a: any, b: any) => parseFloat(b.balance) - parseFloat(a.balance))
+      .slice(0, TOP_HOLDER_LIMIT)
+
+    // Demo data only ever fills sections the database has nothing for, and
+    // each one it fills is listed in metadata.syntheticFields
+    const syntheticFields: string[] = []
+    if (DEMO_MODE && recentTransactions.length === 0) {
+      recentTransactions = demoTransactions(price).map((tx) => ({ ...tx, timeAgo: formatTimeAgo(tx.createdAt) }))
+      syntheticFields.push('recentTransactions')
+    }
+    if (DEMO_MODE && holders.length === 0) {
+      holders = demoHolders(totalSupply)
+      syntheticFields.push('holders')
+    }
 
     // Calculate bonding curve data if not graduated
-    const bondingCurve = !serializedToken.isGraduated 
-      ? calculateBondingCurveProgress(marketData.marketCap) 
+    const bondingCurve = !serializedToken.isGraduated
+      ? calculateBondingCurveProgress(BondingCurve.forToken(serializedToken), BondingCurve.reservesOf(serializedToken))
       : undefined
 
     // Format price and market cap
     const formattedPrice = (() => {
-      if (realTimePrice < 0.000001) return `${realTimePrice.toExponential(2)}`
-      if (realTimePrice < 0.001) return `${realTimePrice.toFixed(8)}`
-      if (realTimePrice < 1) return `${realTimePrice.toFixed(6)}`
-      return `${realTimePrice.toFixed(4)}`
+      if (price < 0.000001) return `${price.toExponential(2)}`
+      if (price < 0.001) return `${price.toFixed(8)}`
+      if (price < 1) return `${price.toFixed(6)}`
+      return `${price.toFixed(4)}`
     })()
 
     const formattedMarketCap = (() => {
-      if (marketData.marketCap >= 1000000) return `${(marketData.marketCap / 1000000).toFixed(2)}M`
-      if (marketData.marketCap >= 1000) return `${(marketData.marketCap / 1000).toFixed(1)}K`
-      return `${marketData.marketCap.toFixed(2)}`
+      if (marketCap >= 1000000) return `${(marketCap / 1000000).toFixed(2)}M`
+      if (marketCap >= 1000) return `${(marketCap / 1000).toFixed(1)}K`
+      return `${marketCap.toFixed(2)}`
     })()
 
-    // Generate mock holder data
-    const mockHolders = generateMockHolders(serializedToken.symbol)
-
-    // Add enhanced data for the frontend
     const enhancedToken = {
       ...serializedToken,
-      // Fix URLs
       imageUrl: processedImageUrl,
       bannerUrl: processedBannerUrl,
-      
-      // Use real-time calculated values
-      price: realTimePrice,
-      marketCap: marketData.marketCap,
-      rugScore: rugScore,
-      totalSupply: totalSupply,
-      currentSupply: currentSupply,
-      riskLevel: riskLevel,
-      
-      // Add computed fields
+      // Variants are only good while the image they were made from is
+      imageThumbUrl: processedImageUrl === serializedToken.imageUrl ? serializedToken.imageThumbUrl : null,
+      imageCardUrl: processedImageUrl === serializedToken.imageUrl ? serializedToken.imageCardUrl : null,
+      imagePosterUrl: processedImageUrl === serializedToken.imageUrl ? serializedToken.imagePosterUrl : null,
+      bannerCropUrl: processedBannerUrl ? serializedToken.bannerCropUrl : null,
+      metadataUri: metadataUriFor(serializedToken.tokenAddress),
+
+      price,
+      marketCap,
+      rugScore,
+      totalSupply,
+      currentSupply,
+      riskLevel,
+
       formattedMarketCap,
       formattedPrice,
-      
-      // Add real-time market data
-      volume24h: marketData.volume24h,
-      transactions24h: marketData.transactions24h,
-      
-      // Add bonding curve data
+
+      volume24h,
+      transactions24h,
+      priceChange24h,
+
       bondingCurve,
-      
-      // Add risk analysis
+
+      // Null when the mint could not be read
+      authorities: authorities || null,
+
       riskAnalysis: {
-        recommendation: getRiskRecommendation(riskLevel, rugScore),
-        factors: getRiskFactors(rugScore)
+        recommendation: getRiskRecommendation(riskLevel),
+        score: rugScore,
+        listingScore: analysis.listingScore,
+        onChainScore: analysis.onChainScore,
+        creatorScore: analysis.creatorScore,
+        // Judged from the creator's other launches; see /api/creators/[address]
+        creator,
+        // What every rule added to the score, from the listing and from trades, holders and the mint
+        contributions: analysis.contributions,
+        issues: analysis.issues,
+        positives: analysis.positives,
+        // Recorded rugScore over time, and whether it recently moved up a band
+        trend: rugScoreTrend.points,
+        trendChange: rugScoreTrend.change,
+        alert: rugScoreTrend.alert
       },
-      
-      // Add statistics
+
       statistics: {
-        transactionCount: recentTransactions.length,
-        holderCount: mockHolders.length,
-        volume24h: marketData.volume24h,
-        priceChange24h: (Math.random() - 0.5) * 20 // ±10% daily change
+        transactionCount,
+        holderCount: holderRows.length,
+        volume24h,
+        priceChange24h
       },
-      
-      // Add processed recent transactions
+
       recentTransactions,
-      
-      // Add holder data
-      holders: mockHolders,
-      
-      // Add metadata
+      holders,
+
       metadata: {
-        isFromDatabase,
         lastUpdated: new Date().toISOString(),
-        dataSource: isFromDatabase ? 'database' : 'simulated'
+        dataSource: syntheticFields.length > 0 ? 'demo' : 'database',
+        syntheticFields
       },
-      
+
       // Remove raw transactions from response to avoid bloat
       transactions: undefined
     }
@@ -371,74 +311,12 @@ export async function GET(
     })
     
   } catch (error) {
-    console.error('Error fetching token:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }, 
-      { status: 500 }
-    )
-  }
-}
-
-// Generate mock holders data
-function generateMockHolders(symbol: string): any[] {
-  const holders = []
-  const addressPrefixes = ['7xKX', 'DRiP', '9WzD', '6dSW', '3jT6', 'Bm8k', '4nR9', '8pQ2']
-  
-  let remainingPercentage = 100
-  const holderCount = Math.floor(Math.random() * 5) + 5 // 5-10 holders
-  
-  for (let i = 0; i < Math.min(addressPrefixes.length, holderCount); i++) {
-    const percentage = i === 0 
-      ? Math.random() * 25 + 15 // Top holder: 15-40%
-      : Math.random() * Math.min(remainingPercentage * 0.3, 12) + 1 // Others: 1-12%
-    
-    remainingPercentage -= percentage
-    
-    const address = addressPrefixes[i] + 'tg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'.slice(4)
-    const balance = (1000000 * percentage / 100).toString()
-    
-    holders.push({
-      address,
-      balance,
-      percentage: Math.max(percentage, 0.01)
-    })
-    
-    if (remainingPercentage <= 5) break
+    return handleRouteError(error, 'Failed to fetch token')
   }
-  
-  return holders.sort((a, b) => b.percentage - a.percentage)
-}
-
-// Helper function to get risk factors
-function getRiskFactors(rugScore: number): string[] {
-  const factors = []
-  
-  if (rugScore > 70) {
-    factors.push('High concentration of tokens in few wallets')
-    factors.push('Limited trading history')
-  }
-  if (rugScore > 50) {
-    factors.push('Unverified contract')
-    factors.push('Low liquidity')
-  }
-  if (rugScore > 30) {
-    factors.push('New token with limited track record')
-  }
-  if (rugScore < 30) {
-    factors.push('Good token distribution')
-    factors.push('Active trading community')
-    factors.push('Verified contract')
-  }
-  
-  return factors
 }
 
 // Helper function to get risk recommendation
-function getRiskRecommendation(riskLevel: string, rugScore: number): string {
+function getRiskRecommendation(riskLevel: string): string {
   const recommendations: Record<string, string> = {
     'LOW': 'This token shows strong fundamentals with low risk indicators. Always DYOR before investing.',
     'MEDIUM': 'This token has moderate risk. Exercise caution and only invest what you can afford to lose.',
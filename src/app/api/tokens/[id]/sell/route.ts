@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-import { BondingCurve } from '@/lib/solana'
+import { TradeQuote, quoteTrade, redeemQuote } from '@/lib/quotes'
+import { FeeEngine, getFeeSchedule } from '@/lib/fees'
+import { requireWallet } from '@/lib/session'
+import { rateLimit, rateLimitResponse, withRateLimitHeaders } from '@/lib/rateLimit'
+import { getPayerKeypair } from '@/lib/treasury'
+import { buildSellTransaction, curveVaultOf, serializeForWallet, serializeMessage } from '@/lib/trading'
+import { errorResponse, fieldError, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { sellBody } from '@/lib/schemas'
+import { PublicKey } from '@solana/web3.js'
 
 export async function POST(
   request: NextRequest,
@@ -8,20 +17,32 @@ export async function POST(
 ) {
   try {
     const { id } = await params
-    const { tokenAmount, slippage = 5, sellerAddress } = await request.json()
-    
-    if (!tokenAmount || tokenAmount <= 0) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid token amount' },
-        { status: 400 }
-      )
+    const {
+      tokenAmount: tokensIn,
+      solAmount: exactSol,
+      exactOut,
+      maxTokenAmount,
+      slippage,
+      sellerAddress,
+      referrerAddress,
+      quoteId
+    } = await parseBody(request, sellBody)
+
+    // Exact-output sells fix the SOL received and burn whatever the curve asks, up to maxTokenAmount
+    const amount = exactOut ? exactSol : tokensIn
+
+    if (amount === undefined) {
+      throw fieldError(exactOut ? 'solAmount' : 'tokenAmount', 'Required')
     }
 
-    if (!sellerAddress) {
-      return NextResponse.json(
-        { success: false, error: 'Seller address is required' },
-        { status: 400 }
-      )
+    const denied = requireWallet(request, sellerAddress)
+    if (denied) return denied
+
+    const limit = rateLimit(request, 'sell', sellerAddress)
+    if (!limit.allowed) return rateLimitResponse(limit)
+
+    if (referrerAddress === sellerAddress) {
+      throw fieldError('referrerAddress', 'Must be a different wallet than the seller')
     }
 
     // Get token from database
@@ -30,130 +51,106 @@ export async function POST(
     })
 
     if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Token not found' },
-        { status: 404 }
-      )
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     if (token.isGraduated) {
-      return NextResponse.json(
-        { success: false, error: 'Token has graduated - use DEX instead' },
-        { status: 400 }
-      )
+      return errorResponse(ErrorCode.TOKEN_GRADUATED, 'Token has graduated - use DEX instead', 400)
     }
 
-    // Calculate SOL to receive based on bonding curve
-    const currentSupply = Number(token.currentSupply)
-    
-    if (tokenAmount > currentSupply) {
-      return NextResponse.json(
-        { success: false, error: 'Insufficient token supply' },
-        { status: 400 }
-      )
+    // A signed quote fixes the output; otherwise price the trade now
+    const feeRates = await getFeeSchedule(token.id)
+    const quote: TradeQuote = quoteId
+      ? redeemQuote(token, quoteId, 'SELL', amount, feeRates, exactOut)
+      : quoteTrade(token, 'SELL', amount, slippage, feeRates, exactOut)
+
+    const {
+      inputAmount: tokenAmount,
+      outputAmount: solAfterFee,
+      effectivePrice: actualPrice,
+      priceImpact,
+      fees: feeAmount,
+      feeRate
+    } = quote
+
+    if (solAfterFee <= 0) {
+      throw fieldError('tokenAmount', 'Too small to receive any SOL')
+    }
+
+    if (tokenAmount > Number(token.currentSupply)) {
+      return errorResponse(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Insufficient token supply', 400)
     }
 
-    const solToReceive = BondingCurve.calculateSolForTokens(tokenAmount, currentSupply)
-    const newSupply = Math.max(0, currentSupply - tokenAmount)
-    const newPrice = BondingCurve.calculatePrice(newSupply)
-    const newMarketCap = Math.max(0, token.marketCap - solToReceive)
+    if (exactOut && maxTokenAmount !== undefined && tokenAmount > maxTokenAmount) {
+      return errorResponse(
+        ErrorCode.MAX_INPUT_EXCEEDED,
+        `Receiving ${solAfterFee} SOL requires selling ${tokenAmount} tokens, above your maximum of ${maxTokenAmount}`,
+        400,
+        { tokenAmount }
+      )
+    }
 
     // Check slippage
-    const expectedPrice = BondingCurve.calculatePrice(currentSupply)
-    const actualPrice = solToReceive / tokenAmount
-    const priceImpact = Math.abs((expectedPrice - actualPrice) / expectedPrice) * 100
-
-    if (priceImpact > slippage) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Price impact ${priceImpact.toFixed(2)}% exceeds slippage tolerance ${slippage}%`,
-          priceImpact
-        },
-        { status: 400 }
+    if (priceImpact > quote.slippage) {
+      return errorResponse(
+        ErrorCode.SLIPPAGE_EXCEEDED,
+        `Price impact ${priceImpact.toFixed(2)}% exceeds slippage tolerance ${quote.slippage}%`,
+        400,
+        { priceImpact }
       )
     }
 
-    // Apply 5% sell fee
-    const sellFee = 0.05
-    const solAfterFee = solToReceive * (1 - sellFee)
-    const feeAmount = solToReceive * sellFee
-
-    // Simulate transaction signature (in production, this would be a real Solana transaction)
-    const signature = `sell_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    // Update database in transaction
-    const [updatedToken, transactionRecord] = await Promise.all([
-      prisma.token.update({
-        where: { id },
-        data: {
-          currentSupply: newSupply,
-          price: newPrice,
-          marketCap: newMarketCap
-        }
-      }),
-      prisma.transaction.create({
-        data: {
-          tokenId: id,
-          userAddress: sellerAddress,
-          type: 'SELL',
-          amount: tokenAmount,
-          solAmount: solAfterFee,
-          price: actualPrice,
-          signature: signature
-        }
-      })
-    ])
-
-    // Update creator fees with sell fee
-    await prisma.creatorFee.upsert({
-      where: {
-        creatorAddress_tokenAddress: {
-          creatorAddress: token.creatorAddress,
-          tokenAddress: token.tokenAddress
-        }
-      },
-      create: {
-        creatorAddress: token.creatorAddress,
-        tokenAddress: token.tokenAddress,
-        totalFees: feeAmount
-      },
-      update: {
-        totalFees: { increment: feeAmount }
+    const feeSplit = FeeEngine.splitFee(feeRates, feeAmount, Boolean(referrerAddress))
+
+    // Build the transaction with the treasury's payout signed; the seller signs the burn in their wallet
+    const prepared = await buildSellTransaction({
+      treasury: getPayerKeypair(),
+      seller: new PublicKey(sellerAddress),
+      mint: new PublicKey(token.tokenAddress),
+      tokenAmount,
+      solAmount: solAfterFee,
+      vault: curveVaultOf(token)
+    })
+
+    const intent = await prisma.tradeIntent.create({
+      data: {
+        tokenId: id,
+        userAddress: sellerAddress,
+        type: 'SELL',
+        amount: tokenAmount,
+        solAmount: solAfterFee,
+        price: actualPrice,
+        feeAmount,
+        message: serializeMessage(prepared.transaction),
+        blockhash: prepared.blockhash,
+        lastValidBlockHeight: prepared.lastValidBlockHeight,
+        slippage: quote.slippage,
+        exactOut: quote.exactOut,
+        referrerAddress: referrerAddress || null,
+        platformFee: feeSplit.platform,
+        creatorFee: feeSplit.creator,
+        referrerFee: feeSplit.referrer
       }
     })
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
       data: {
+        intentId: intent.id,
+        transaction: serializeForWallet(prepared.transaction),
+        lastValidBlockHeight: prepared.lastValidBlockHeight,
+        exactOut: quote.exactOut,
         tokensSold: tokenAmount,
         solReceived: solAfterFee,
         sellFee: feeAmount,
-        feePercentage: sellFee * 100,
-        newPrice: newPrice,
-        newMarketCap: newMarketCap,
-        newSupply: newSupply,
-        priceImpact: priceImpact,
-        signature: signature,
-        transaction: {
-          id: transactionRecord.id,
-          type: 'SELL',
-          timestamp: transactionRecord.createdAt
-        }
+        feePercentage: feeRate,
+        price: actualPrice,
+        priceImpact,
+        priceAfter: quote.priceAfter
       }
-    })
+    }), limit)
 
   } catch (error) {
-    console.error('Sell token error:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Failed to sell token',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    )
-  } finally {
-    await prisma.$disconnect()
+    return handleRouteError(error, 'Failed to prepare sell transaction')
   }
 }
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { PublicKey } from '@solana/web3.js'
+import { prisma } from '@/lib/database'
+import { connection } from '@/lib/solana'
+import { getPayerKeypair } from '@/lib/treasury'
+import { curveVaultOf, findTradeMismatches, settleTrade } from '@/lib/trading'
+import { errorResponse, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { confirmTradeBody } from '@/lib/schemas'
+import { recomputeAfterTrade } from '@/lib/rugScore'
+import { refreshVolumeAnalysis } from '@/lib/washTrading'
+
+// Reconcile a trade the wallet sent itself: the signature is only credited
+// once the on-chain transfers match the quote it was built from.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { signature, intentId } = await parseBody(request, confirmTradeBody)
+
+    const existing = await prisma.transaction.findUnique({
+      where: { signature }
+    })
+
+    if (existing) {
+      return errorResponse(ErrorCode.DUPLICATE_SIGNATURE, 'Trade has already been recorded', 409)
+    }
+
+    const token = await prisma.token.findUnique({
+      where: { id }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    const intent = await prisma.tradeIntent.findFirst({
+      where: {
+        tokenId: id,
+        OR: [
+          ...(intentId ? [{ id: intentId }] : []),
+          { signature }
+        ]
+      }
+    })
+
+    if (!intent) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'No quoted trade found for this signature', 404)
+    }
+
+    if (intent.status === 'CONFIRMED') {
+      return errorResponse(ErrorCode.DUPLICATE_SIGNATURE, 'Quoted trade has already been settled', 409)
+    }
+
+    if (intent.signature && intent.signature !== signature) {
+      return errorResponse(ErrorCode.TRANSACTION_MISMATCH, 'Quoted trade was submitted with a different signature', 400)
+    }
+
+    const parsed = await connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    })
+
+    if (!parsed) {
+      return errorResponse(ErrorCode.TRANSACTION_NOT_FOUND, 'Transaction not found or not yet confirmed', 404)
+    }
+
+    // The treasury holds the SOL side of every bonding curve, its vault the token side.
+    // Checked before a failure is recorded, so an unrelated failed transaction cannot fail the intent
+    const mismatches = await findTradeMismatches(
+      parsed,
+      intent,
+      new PublicKey(token.tokenAddress),
+      getPayerKeypair().publicKey,
+      curveVaultOf(token)
+    )
+
+    if (mismatches.length > 0) {
+      return errorResponse(ErrorCode.TRANSACTION_MISMATCH, 'Transaction does not match the quoted trade', 400, { details: mismatches })
+    }
+
+    if (parsed.meta?.err) {
+      await prisma.tradeIntent.update({
+        where: { id: intent.id },
+        data: { status: 'FAILED', signature, error: JSON.stringify(parsed.meta.err) }
+      })
+
+      return errorResponse(ErrorCode.TRANSACTION_FAILED, 'Transaction failed on chain', 400, { details: parsed.meta.err })
+    }
+
+    let settlement
+    try {
+      settlement = await settleTrade(intent, signature)
+    } catch (settleError) {
+      if ((settleError as any)?.code === 'P2002') {
+        return errorResponse(ErrorCode.DUPLICATE_SIGNATURE, 'Trade has already been recorded', 409)
+      }
+      throw settleError
+    }
+
+    // Risk and volume figures change as trading happens; refreshing them must not hold up the response
+    after(async () => {
+      try {
+        await recomputeAfterTrade(token.id)
+      } catch (error) {
+        console.error('Failed to recompute rug score after trade:', error)
+      }
+      try {
+        await refreshVolumeAnalysis(token.id)
+      } catch (error) {
+        console.error('Failed to refresh volume analysis after trade:', error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        signature,
+        type: intent.type,
+        tokenAmount: intent.amount,
+        solAmount: intent.solAmount,
+        fee: intent.feeAmount,
+        slot: parsed.slot,
+        newPrice: settlement.newPrice,
+        newMarketCap: settlement.newMarketCap,
+        newSupply: settlement.newSupply,
+        transaction: {
+          id: settlement.transaction.id,
+          type: settlement.transaction.type,
+          timestamp: settlement.transaction.createdAt
+        }
+      }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to confirm trade')
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { SendTransactionError, Transaction } from '@solana/web3.js'
+import { utils } from '@project-serum/anchor'
+import { prisma } from '@/lib/database'
+import { connection } from '@/lib/solana'
+import { requoteTrade, serializeMessage, settleTradeWithRetry } from '@/lib/trading'
+import { errorResponse, fieldError, handleRouteError, parseBody } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { submitTradeBody } from '@/lib/schemas'
+import { recomputeAfterTrade } from '@/lib/rugScore'
+import { refreshVolumeAnalysis } from '@/lib/washTrading'
+
+// Sent but not settled yet: the client finishes the trade through /confirm
+function pendingResponse(tokenId: string, intentId: string, signature: string) {
+  return NextResponse.json({
+    success: true,
+    data: {
+      intentId,
+      signature,
+      status: 'SUBMITTED',
+      confirmUrl: `/api/tokens/${tokenId}/trades/confirm`
+    }
+  }, { status: 202 })
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { intentId, transaction: serializedTransaction } = await parseBody(request, submitTradeBody)
+
+    const intent = await prisma.tradeIntent.findFirst({
+      where: { id: intentId, tokenId: id }
+    })
+
+    if (!intent) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Trade not found', 404)
+    }
+
+    // Resubmitting a settled trade returns the recorded result; settling always records the signature
+    if (intent.status === 'CONFIRMED' && intent.signature) {
+      const existing = await prisma.transaction.findUnique({
+        where: { signature: intent.signature }
+      })
+      return NextResponse.json({
+        success: true,
+        data: { signature: intent.signature, transaction: existing }
+      })
+    }
+
+    if (intent.status !== 'PENDING') {
+      return errorResponse(ErrorCode.CONFLICT, `Trade is ${intent.status.toLowerCase()}`, 409)
+    }
+
+    let signedTransaction: Transaction
+    try {
+      signedTransaction = Transaction.from(Buffer.from(serializedTransaction, 'base64'))
+    } catch {
+      throw fieldError('transaction', 'Must be a base64 encoded transaction')
+    }
+
+    // The wallet may only add its signature; any change to the instructions is rejected
+    if (serializeMessage(signedTransaction) !== intent.message) {
+      return errorResponse(ErrorCode.TRANSACTION_MISMATCH, 'Signed transaction does not match the quoted trade', 400)
+    }
+
+    if (!signedTransaction.verifySignatures()) {
+      return errorResponse(ErrorCode.TRANSACTION_MISMATCH, 'Transaction is missing required signatures', 400)
+    }
+
+    const blockHeight = await connection.getBlockHeight('confirmed')
+    if (blockHeight > intent.lastValidBlockHeight) {
+      await prisma.tradeIntent.update({
+        where: { id: intent.id },
+        data: { status: 'EXPIRED' }
+      })
+      return errorResponse(ErrorCode.TRADE_EXPIRED, 'Trade quote expired, please request a new one', 410)
+    }
+
+    // Other trades may have settled since the quote; don't send if the curve moved too far
+    const { moved, deviation, requote } = await requoteTrade(intent)
+    if (moved) {
+      await prisma.tradeIntent.update({
+        where: { id: intent.id },
+        data: { status: 'EXPIRED', error: `Price moved ${deviation.toFixed(2)}% since quote` }
+      })
+      return errorResponse(
+        ErrorCode.PRICE_MOVED,
+        `Price moved ${deviation.toFixed(2)}% since your quote, exceeding slippage tolerance ${intent.slippage}%`,
+        409,
+        { requote }
+      )
+    }
+
+    // Claim the intent so concurrent submissions cannot double-send it. The
+    // signature is recorded before sending, so a trade that lands after this
+    // request is interrupted can still be settled through /confirm
+    const signature = utils.bytes.bs58.encode(signedTransaction.signature!)
+    const claimed = await prisma.tradeIntent.updateMany({
+      where: { id: intent.id, status: 'PENDING' },
+      data: { status: 'SUBMITTED', signature }
+    })
+
+    if (claimed.count === 0) {
+      return errorResponse(ErrorCode.CONFLICT, 'Trade is already being processed', 409)
+    }
+
+    try {
+      await connection.sendRawTransaction(signedTransaction.serialize(), {
+        preflightCommitment: 'confirmed'
+      })
+    } catch (sendError) {
+      // Preflight rejected it, so it never reached the chain; other send errors leave it to the chain below
+      if (sendError instanceof SendTransactionError) {
+        await prisma.tradeIntent.update({
+          where: { id: intent.id },
+          data: { status: 'FAILED', error: sendError.message }
+        })
+        return errorResponse(ErrorCode.TRANSACTION_FAILED, 'Transaction was rejected before sending', 502, { details: sendError.message })
+      }
+      console.warn(`Trade ${intent.id} send failed:`, sendError)
+    }
+
+    try {
+      const confirmation = await connection.confirmTransaction(
+        {
+          signature,
+          blockhash: intent.blockhash,
+          lastValidBlockHeight: intent.lastValidBlockHeight
+        },
+        'confirmed'
+      )
+
+      if (confirmation.value.err) {
+        const message = JSON.stringify(confirmation.value.err)
+        await prisma.tradeIntent.update({
+          where: { id: intent.id },
+          data: { status: 'FAILED', error: `Transaction failed: ${message}` }
+        })
+        return errorResponse(ErrorCode.TRANSACTION_FAILED, 'Transaction failed on chain', 502, { details: message })
+      }
+    } catch (confirmError) {
+      // Timed out or interrupted: the transaction may still land, so the intent stays SUBMITTED
+      console.warn(`Trade ${intent.id} confirmation interrupted:`, confirmError)
+      return pendingResponse(id, intent.id, signature)
+    }
+
+    let settlement
+    try {
+      settlement = await settleTradeWithRetry(intent, signature)
+    } catch (settleError) {
+      // A concurrent /confirm settled it first
+      if ((settleError as any)?.code === 'P2002') {
+        const existing = await prisma.transaction.findUnique({ where: { signature } })
+        return NextResponse.json({
+          success: true,
+          data: { signature, transaction: existing }
+        })
+      }
+
+      console.error(`Trade ${intent.id} landed but could not be settled:`, settleError)
+      return pendingResponse(id, intent.id, signature)
+    }
+
+    // Risk and volume figures change as trading happens; refreshing them must not hold up the response
+    after(async () => {
+      try {
+        await recomputeAfterTrade(intent.tokenId)
+      } catch (error) {
+        console.error('Failed to recompute rug score after trade:', error)
+      }
+      try {
+        await refreshVolumeAnalysis(intent.tokenId)
+      } catch (error) {
+        console.error('Failed to refresh volume analysis after trade:', error)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        signature,
+        type: intent.type,
+        tokenAmount: intent.amount,
+        solAmount: intent.solAmount,
+        fee: intent.feeAmount,
+        newPrice: settlement.newPrice,
+        newMarketCap: settlement.newMarketCap,
+        newSupply: settlement.newSupply,
+        transaction: {
+          id: settlement.transaction.id,
+          type: settlement.transaction.type,
+          timestamp: settlement.transaction.createdAt
+        }
+      }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to submit trade')
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
+import { errorResponse, handleRouteError, parseQuery } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { transactionsQuery } from '@/lib/schemas'
 
 function serializeBigInt(obj: any): any {
   if (obj === null || obj === undefined) {
@@ -129,19 +132,14 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const { searchParams } = new URL(request.url)
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Token ID is required' }, { status: 400 })
-    }
-    
-    // Parse query parameters
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100) // Cap at 100
-    const page = parseInt(searchParams.get('page') || '1')
-    const type = searchParams.get('type') as 'BUY' | 'SELL' | null
-    const userAddress = searchParams.get('userAddress')
-    const includeRealtime = searchParams.get('realtime') === 'true'
-    const includePNL = searchParams.get('pnl') === 'true'
+    const {
+      limit,
+      page,
+      type,
+      userAddress,
+      realtime: includeRealtime,
+      pnl: includePNL
+    } = parseQuery(request, transactionsQuery)
     
     // Validate token exists and get current price
     const token = await prisma.token.findUnique({
@@ -155,7 +153,7 @@ export async function GET(
     })
     
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     const currentPrice = parseFloat(token.price.toString())
@@ -313,15 +311,6 @@ export async function GET(
     return res
     
   } catch (error) {
-    console.error('Error fetching transactions:', error)
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString()
-      }, 
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch transactions')
   }
 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/database'
+import { errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { WASH_WINDOW_MS, analyzeWashTrading } from '@/lib/washTrading'
+
+/**
+ * Wash trading found in the last 24h of trades: round trips, matched
+ * buy/sell pairs and wallets trading in lockstep, with the volume they make up
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const token = await prisma.token.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    const analysis = await analyzeWashTrading(id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tokenId: id,
+        since: new Date(Date.now() - WASH_WINDOW_MS).toISOString(),
+        ...analysis
+      }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to analyze wash trading')
+  }
+}
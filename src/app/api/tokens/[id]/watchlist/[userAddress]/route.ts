@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
 import { RugDetector } from '@/lib/solana'
+import { check, handleRouteError, parseQuery } from '@/lib/apiResponse'
+import { watchlistParams, watchlistQuery } from '@/lib/schemas'
+import { getRecentRiskAlerts } from '@/lib/rugScore'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; userAddress: string }> }
 ) {
   try {
-    const { id, userAddress } = await params
-    const { searchParams } = new URL(request.url)
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100)
+    const { userAddress } = check(watchlistParams, await params)
+    const { limit } = parseQuery(request, watchlistQuery)
 
     const watchlist = await prisma.watchlist.findMany({
       where: { userAddress },
@@ -35,13 +37,17 @@ export async function GET(
       take: limit
     })
 
+    // Warn owners about watched tokens whose risk band went up recently
+    const riskAlerts = await getRecentRiskAlerts(watchlist.map((entry: any) => entry.tokenId))
+
     const tokensWithRisk = watchlist.map((entry: any) => ({
       ...entry,
       token: {
         ...entry.token,
         riskLevel: entry.token.rugScore ? 
           RugDetector.getRiskLevel(entry.token.rugScore) : 
-          'UNKNOWN'
+          'UNKNOWN',
+        riskAlert: riskAlerts.get(entry.tokenId) || null
       }
     }))
 
@@ -52,10 +58,6 @@ export async function GET(
     })
 
   } catch (error) {
-    console.error('Get watchlist error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch watchlist' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch watchlist')
   }
 }
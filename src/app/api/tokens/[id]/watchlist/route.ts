@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
 import { RugDetector, BondingCurve } from '@/lib/solana'
+import { requireWallet } from '@/lib/session'
+import { errorResponse, handleRouteError, parseBody, parseQuery } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { watchlistBody, watchlistTransactionsQuery } from '@/lib/schemas'
+import { getRuleWeights } from '@/lib/rugRuleConfig'
 
 // Remove explicit type definitions to let TypeScript infer from Prisma
 // This prevents type mismatches between expected bigint and actual number types
@@ -68,11 +73,7 @@ export async function GET(
     return getTokenDetails(request, id)
 
   } catch (error) {
-    console.error('Route handler error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Internal server error')
   } finally {
     await prisma.$disconnect()
   }
@@ -109,18 +110,17 @@ async function getTokenDetails(request: NextRequest, id: string) {
     })
 
     if (!token) {
-      return NextResponse.json(
-        { success: false, error: 'Token not found' },
-        { status: 404 }
-      )
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     // Serialize the token data to handle BigInt fields
     const serializedToken = serializeBigInt(token)
     
     // Calculate additional analytics
-    const riskAnalysis = RugDetector.getDetailedAnalysis(serializedToken)
-    const bondingCurveProgress = BondingCurve.getProgress(serializedToken.currentSupply)
+    const riskAnalysis = RugDetector.getDetailedAnalysis(serializedToken, undefined, await getRuleWeights())
+    const curve = BondingCurve.forToken(serializedToken)
+    const curveReserves = BondingCurve.reservesOf(serializedToken)
+    const bondingCurveProgress = curve.progress(curveReserves)
 
     // Calculate 24h statistics - remove explicit typing
     const last24h = new Date(Date.now() - 24 * 60 * 60 * 1000)
@@ -143,6 +143,9 @@ async function getTokenDetails(request: NextRequest, id: string) {
         riskAnalysis: riskAnalysis,
         bondingCurve: {
           progress: bondingCurveProgress,
+          curveType: curve.type,
+          curveParams: curve.params,
+          reserves: curveReserves,
           targetSupply: BondingCurve.TARGET_SUPPLY,
           graduationMarketCap: BondingCurve.GRADUATION_MARKET_CAP,
           isGraduated: serializedToken.isGraduated
@@ -167,28 +170,83 @@ async function getTokenDetails(request: NextRequest, id: string) {
     return NextResponse.json(responseData)
 
   } catch (error) {
-    console.error('Get token details error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch token details' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch token details')
+  }
+}
+
+// Add the token to the signed-in wallet's watchlist
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { userAddress } = await parseBody(request, watchlistBody)
+
+    const denied = requireWallet(request, userAddress)
+    if (denied) return denied
+
+    const token = await prisma.token.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!token) {
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
+    }
+
+    const watchlist = await prisma.watchlist.upsert({
+      where: { userAddress_tokenId: { userAddress, tokenId: id } },
+      create: { userAddress, tokenId: id },
+      update: {}
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: serializeBigInt(watchlist)
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to add to watchlist')
+  }
+}
+
+// Remove the token from the signed-in wallet's watchlist
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { userAddress } = await parseBody(request, watchlistBody)
+
+    const denied = requireWallet(request, userAddress)
+    if (denied) return denied
+
+    await prisma.watchlist.deleteMany({
+      where: { userAddress, tokenId: id }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { tokenId: id, userAddress }
+    })
+
+  } catch (error) {
+    return handleRouteError(error, 'Failed to remove from watchlist')
   }
 }
 
 // Transactions handler
 async function getTransactions(request: NextRequest, id: string) {
   try {
-    const { searchParams } = new URL(request.url)
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
-    const type = searchParams.get('type')
-    const userAddress = searchParams.get('userAddress')
+    const { page, limit, type, userAddress } = parseQuery(request, watchlistTransactionsQuery)
 
     const skip = (page - 1) * limit
 
     let where: any = { tokenId: id }
     
-    if (type && ['BUY', 'SELL'].includes(type)) {
+    if (type) {
       where.type = type
     }
     
@@ -241,10 +299,6 @@ async function getTransactions(request: NextRequest, id: string) {
     return NextResponse.json(responseData)
 
   } catch (error) {
-    console.error('Get transactions error:', error)
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch transactions' },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch transactions')
   }
 }
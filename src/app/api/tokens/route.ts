@@ -1,28 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
-import { BondingCurve, RugDetector, connection } from '@/lib/solana'
+import { BondingCurve, Curve, RugDetector, connection } from '@/lib/solana'
+import { getPayerKeypair } from '@/lib/treasury'
+import { Ledger } from '@/lib/ledger'
+import {
+  DAILY_TOKEN_CREATION_LIMIT,
+  rateLimit,
+  rateLimitResponse,
+  withRateLimitHeaders
+} from '@/lib/rateLimit'
+import { errorResponse, fieldError, handleRouteError, parseBody, parseQuery } from '@/lib/apiResponse'
+import { ERROR_MESSAGES, ErrorCode } from '@/lib/errors'
+import { createTokenBody, createTokenQuery, tokenListQuery } from '@/lib/schemas'
 import { 
   PublicKey, 
   Keypair, 
   SystemProgram, 
   Transaction, 
+  TransactionMessage,
+  VersionedTransaction,
   sendAndConfirmTransaction, 
   LAMPORTS_PER_SOL 
 } from '@solana/web3.js'
 import { 
   createMint, 
   getMinimumBalanceForRentExemptMint, 
+  getMinimumBalanceForRentExemptAccount,
   MINT_SIZE, 
   TOKEN_PROGRAM_ID,
   createInitializeMintInstruction,
   createMintToInstruction,
+  createSetAuthorityInstruction,
+  AuthorityType,
   getOrCreateAssociatedTokenAccount,
   ASSOCIATED_TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
   getAssociatedTokenAddress
 } from '@solana/spl-token'
-import path from 'path'
-import { existsSync } from 'fs'
+import { isStoredUrl, storedUrlExists } from '@/lib/storage'
+import { requireWallet } from '@/lib/session'
+import { metadataUriFor, mirrorMetadata } from '@/lib/offChainMetadata'
+import {
+  METADATA_ACCOUNT_SIZE,
+  createMetadataInstructions,
+  findMetadataAddress,
+  getMetadataUpdateAuthority
+} from '@/lib/tokenMetadata'
+import { tokenImageVariants } from '@/lib/images'
+import { getCurveVaultAddress } from '@/lib/trading'
+import { recomputeRugScore } from '@/lib/rugScore'
+import { getRuleWeights } from '@/lib/rugRuleConfig'
+import { getCreatorReputation } from '@/lib/creatorReputation'
 
 // Enhanced image validation and processing
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
@@ -36,6 +64,10 @@ type TokenFromDB = {
   description: string | null;
   imageUrl: string | null;
   bannerUrl: string | null;
+  imageThumbUrl: string | null;
+  imageCardUrl: string | null;
+  imagePosterUrl: string | null;
+  bannerCropUrl: string | null;
   creatorAddress: string;
   tokenAddress: string;
   bondingCurveAddress: string | null;
@@ -43,27 +75,32 @@ type TokenFromDB = {
   currentSupply: bigint;
   marketCap: number;
   price: number;
+  virtualSolReserves: number;
+  virtualTokenReserves: number;
+  realSolReserves: number;
+  realTokenReserves: number;
+  curveType: string;
+  curveParams: any;
   website: string | null;
   twitter: string | null;
   telegram: string | null;
   isGraduated: boolean;
   graduatedAt: Date | null;
   rugScore: number;
+  volume24h: number;
+  washVolume24h: number;
+  organicVolume24h: number;
+  volumeAnalyzedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
-// Validate image URL - Fixed to handle both local and external URLs
+// Validate image URL - either one of our uploads or an external http(s) URL
 function validateImageUrl(url: string): boolean {
   if (!url) return false
+  if (isStoredUrl(url)) return true
   
   try {
-    // Handle local URLs
-    if (url.startsWith('/uploads/') || url.startsWith('./') || url.startsWith('../')) {
-      return true
-    }
-    
-    // Handle external URLs
     const urlObj = new URL(url)
     return urlObj.protocol === 'http:' || urlObj.protocol === 'https:'
   } catch {
@@ -71,22 +108,12 @@ function validateImageUrl(url: string): boolean {
   }
 }
 
-// Check if uploaded image exists locally - Fixed path checking
-function checkLocalImageExists(url: string): boolean {
+// Check that an uploaded image is actually in storage; external URLs are assumed valid
+async function checkLocalImageExists(url: string): Promise<boolean> {
   if (!url) return false
+  if (isStoredUrl(url)) return storedUrlExists(url)
   
-  // External URLs are assumed valid
-  if (url.startsWith('http://') || url.startsWith('https://')) return true
-  
-  if (!url.startsWith('/uploads/')) return false
-  
-  try {
-    const localPath = path.join(process.cwd(), 'public', url)
-    return existsSync(localPath)
-  } catch (error) {
-    console.warn('Error checking local image:', error)
-    return false
-  }
+  return url.startsWith('http://') || url.startsWith('https://')
 }
 
 // Fixed fallback image generation
@@ -109,186 +136,20 @@ function generateFallbackImage(symbol: string, type: 'logo' | 'banner' = 'logo')
   return `https://ui-avatars.com/api/?name=${encodeURIComponent(symbol.substring(0, 2))}&size=${size}&background=${background}&color=ffffff&bold=true&format=png`
 }
 
-// Enhanced metadata upload with better error handling
-async function uploadMetadataWithFallbacks(metadata: any): Promise<string> {
-  const providers = [
-    // Option 1: Arweave via Bundlr/Irys
-    async () => {
-      if (!process.env.ARWEAVE_PRIVATE_KEY) return null
-      
-      try {
-        const response = await fetch('https://node1.irys.xyz/upload', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.ARWEAVE_PRIVATE_KEY}`,
-          },
-          body: JSON.stringify(metadata)
-        })
-
-        if (response.ok) {
-          const result = await response.json()
-          return result.id ? `https://arweave.net/${result.id}` : null
-        }
-      } catch (error) {
-        console.warn('Arweave upload failed:', error)
-      }
-      return null
-    },
-
-    // Option 2: IPFS via Pinata
-    async () => {
-      if (!process.env.PINATA_JWT) return null
-      
-      try {
-        const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.PINATA_JWT}`,
-          },
-          body: JSON.stringify({
-            pinataContent: metadata,
-            pinataMetadata: {
-              name: `${metadata.name} Metadata`,
-              keyvalues: {
-                symbol: metadata.symbol,
-                type: 'token-metadata'
-              }
-            }
-          })
-        })
-
-        if (response.ok) {
-          const result = await response.json()
-          return `https://gateway.pinata.cloud/ipfs/${result.IpfsHash}`
-        }
-      } catch (error) {
-        console.warn('IPFS upload failed:', error)
-      }
-      return null
-    },
-
-    // Option 3: Base64 fallback (works but not ideal for large metadata)
-    async () => {
-      try {
-        const encodedMetadata = Buffer.from(JSON.stringify(metadata)).toString('base64')
-        return `data:application/json;base64,${encodedMetadata}`
-      } catch (error) {
-        console.error('Base64 encoding failed:', error)
-        return null
-      }
-    }
-  ]
-
-  // Try each provider in order
-  for (const provider of providers) {
-    try {
-      const result = await provider()
-      if (result) {
-        console.log('Metadata uploaded successfully to:', result.split('://')[0])
-        return result
-      }
-    } catch (error) {
-      console.warn('Provider failed:', error)
-      continue
-    }
-  }
-
-  throw new Error('All metadata upload providers failed')
-}
-
-// Fixed pricing calculation using proper bonding curve
-function calculateInitialPrice(marketCap: number = 0): number {
-  // Simple linear bonding curve: price increases with market cap
-  const BASE_PRICE = 0.000001 // Starting price in SOL
-  const PRICE_MULTIPLIER = 0.000001 // Price increases by this amount per SOL market cap
-  
-  return BASE_PRICE + (marketCap * PRICE_MULTIPLIER)
-}
-
-// Calculate tokens for SOL amount using bonding curve
-function calculateTokensForSol(solAmount: number, currentMarketCap: number): number {
-  const currentPrice = calculateInitialPrice(currentMarketCap)
-  
-  // Simple calculation - in production you'd use integral of bonding curve
-  const averagePrice = (currentPrice + calculateInitialPrice(currentMarketCap + solAmount)) / 2
-  return solAmount / averagePrice
-}
-
-// Enhanced validation with better error messages and Solana address validation
-function validateTokenData(data: any) {
-  const errors: string[] = []
-  
-  if (!data.name || typeof data.name !== 'string' || data.name.trim().length === 0) {
-    errors.push('Name is required and must be a non-empty string')
-  }
-  
-  if (data.name && data.name.length > 32) {
-    errors.push('Name must be 32 characters or less')
-  }
-  
-  if (!data.symbol || typeof data.symbol !== 'string' || data.symbol.trim().length === 0) {
-    errors.push('Symbol is required and must be a non-empty string')
-  }
-  
-  if (data.symbol && (data.symbol.length > 10 || data.symbol.length < 1)) {
-    errors.push('Symbol must be between 1 and 10 characters')
-  }
-  
-  if (!data.creatorAddress || typeof data.creatorAddress !== 'string') {
-    errors.push('Creator address is required')
-  }
-  
-  // Enhanced Solana address validation
-  if (data.creatorAddress) {
-    try {
-      const publicKey = new PublicKey(data.creatorAddress)
-      // Additional validation to ensure the key is on curve
-      if (!PublicKey.isOnCurve(publicKey.toBytes())) {
-        errors.push('Invalid Solana address: not on Ed25519 curve')
-      }
-    } catch (error) {
-      errors.push(`Invalid Solana address format: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
-  }
-  
-  // Enhanced image URL validation
-  if (data.imageUrl && typeof data.imageUrl === 'string' && data.imageUrl.trim().length > 0) {
-    if (!validateImageUrl(data.imageUrl)) {
-      errors.push('Invalid image URL format')
-    }
-  }
-  
-  if (data.bannerUrl && typeof data.bannerUrl === 'string' && data.bannerUrl.trim().length > 0) {
-    if (!validateImageUrl(data.bannerUrl)) {
-      errors.push('Invalid banner URL format')
-    }
-  }
-  
-  if (data.description && data.description.length > 1000) {
-    errors.push('Description must be 1000 characters or less')
-  }
-  
-  if (data.website && !validateImageUrl(data.website)) {
-    errors.push('Invalid website URL format')
-  }
-  
-  return errors
-}
-
-// Enhanced token creation with better error handling
-async function createSPLTokenWithEnhancedMetadata(
+/**
+ * Assemble the launch transaction and work out its rent, without sending it.
+ * Dry runs simulate the result; real launches sign and send it.
+ */
+async function prepareTokenLaunch(
   payer: Keypair,
   creatorAddress: PublicKey,
   decimals: number,
   name: string,
   symbol: string,
-  description: string,
   imageUrl: string,
-  bannerUrl?: string,
-  totalSupply: number = 1_000_000_000,
-  initialBuyAmount?: number
+  bannerUrl: string | undefined,
+  totalSupply: number,
+  curve: Curve
 ) {
   // Validate creator address is on curve before proceeding
   if (!PublicKey.isOnCurve(creatorAddress.toBytes())) {
@@ -296,86 +157,33 @@ async function createSPLTokenWithEnhancedMetadata(
   }
 
   const mintKeypair = Keypair.generate()
-  const mintRent = await getMinimumBalanceForRentExemptMint(connection)
+  const [mintRent, accountRent, metadataRent] = await Promise.all([
+    getMinimumBalanceForRentExemptMint(connection),
+    getMinimumBalanceForRentExemptAccount(connection),
+    connection.getMinimumBalanceForRentExemption(METADATA_ACCOUNT_SIZE)
+  ])
   
   // Validate and process images with better fallback handling
   let processedImageUrl = imageUrl
   let processedBannerUrl = bannerUrl
 
-  if (!imageUrl || !validateImageUrl(imageUrl) || !checkLocalImageExists(imageUrl)) {
+  if (!imageUrl || !validateImageUrl(imageUrl) || !(await checkLocalImageExists(imageUrl))) {
     console.warn('Invalid or missing image URL, generating fallback')
     processedImageUrl = generateFallbackImage(symbol, 'logo')
   }
 
-  if (bannerUrl && (!validateImageUrl(bannerUrl) || !checkLocalImageExists(bannerUrl))) {
+  if (bannerUrl && (!validateImageUrl(bannerUrl) || !(await checkLocalImageExists(bannerUrl)))) {
     console.warn('Invalid banner URL, removing banner')
     processedBannerUrl = undefined
   }
 
-  // Calculate initial pricing properly
-  let currentMarketCap = 0
-  let currentPrice = calculateInitialPrice(0)
-  
-  if (initialBuyAmount && initialBuyAmount > 0) {
-    currentMarketCap = initialBuyAmount
-    currentPrice = calculateInitialPrice(currentMarketCap)
-  }
-
-  // Create comprehensive metadata with correct pricing
-  const metadata = {
-    name,
-    symbol,
-    description,
-    image: processedImageUrl,
-    external_url: null,
-    attributes: [
-      {
-        trait_type: "Token Type",
-        value: "Meme Coin"
-      },
-      {
-        trait_type: "Network",
-        value: "Solana"
-      },
-      {
-        trait_type: "Total Supply",
-        value: totalSupply.toLocaleString()
-      },
-      {
-        trait_type: "Decimals",
-        value: decimals
-      },
-      {
-        trait_type: "Initial Price",
-        value: `${currentPrice.toFixed(8)} SOL`
-      }
-    ],
-    properties: {
-      files: [
-        {
-          uri: processedImageUrl,
-          type: processedImageUrl.includes('.png') ? "image/png" : "image/jpeg"
-        }
-      ],
-      category: "image",
-      creators: [
-        {
-          address: creatorAddress.toString(),
-          share: 100,
-          verified: false
-        }
-      ]
-    },
-    collection: null,
-    mint: mintKeypair.publicKey.toString(),
-    banner: processedBannerUrl,
-    compiler: "Solana Token Creator v1.0",
-    date: new Date().toISOString(),
-  }
+  // Every token launches at the start of its own curve; initial buys go through the trade flow
+  const curveReserves = curve.initialReserves()
+  const currentMarketCap = 0
+  const currentPrice = curve.priceAt(curveReserves)
 
-  // Upload metadata
-  const metadataUri = await uploadMetadataWithFallbacks(metadata)
-  console.log('Metadata uploaded to:', metadataUri)
+  // The metadata account points at our own metadata route, which serves the token row
+  const metadataUri = metadataUriFor(mintKeypair.publicKey.toString())
 
   // Create token transaction
   const transaction = new Transaction()
@@ -391,55 +199,156 @@ async function createSPLTokenWithEnhancedMetadata(
     })
   )
   
-  // 2. Initialize mint
+  // 2. Initialize mint without a freeze authority, so no holder's tokens can ever be frozen
   transaction.add(
     createInitializeMintInstruction(
       mintKeypair.publicKey,
       decimals,
       payer.publicKey,
-      payer.publicKey
+      null
     )
   )
   
-  // 3. Create associated token account for creator with better error handling
-  let associatedTokenAddress: PublicKey
-  try {
-    associatedTokenAddress = await getAssociatedTokenAddress(
-      mintKeypair.publicKey,
-      creatorAddress,
-      false, // allowOwnerOffCurve = false (default)
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
-    )
-  } catch (error) {
-    console.error('Failed to get associated token address:', error)
-    throw new Error(`Invalid creator address: ${error instanceof Error ? error.message : 'Unknown error'}`)
-  }
+  // 3. Create the metadata account wallets and explorers read the name, symbol and image from
+  const metadataAddress = findMetadataAddress(mintKeypair.publicKey)
+  const updateAuthority = getMetadataUpdateAuthority()
+  transaction.add(
+    ...createMetadataInstructions({
+      mint: mintKeypair.publicKey,
+      mintAuthority: payer.publicKey,
+      payer: payer.publicKey,
+      updateAuthority,
+      name,
+      symbol,
+      uri: metadataUri
+    })
+  )
   
+  // 4. Create the curve vault, the treasury token account trades are filled from
+  const vaultAddress = await getCurveVaultAddress(mintKeypair.publicKey, payer.publicKey)
   transaction.add(
     createAssociatedTokenAccountInstruction(
       payer.publicKey,
-      associatedTokenAddress,
-      creatorAddress,
+      vaultAddress,
+      payer.publicKey,
       mintKeypair.publicKey,
       TOKEN_PROGRAM_ID,
       ASSOCIATED_TOKEN_PROGRAM_ID
     )
   )
   
-  // 4. Mint initial supply to creator
-  if (totalSupply > 0) {
-    transaction.add(
-      createMintToInstruction(
-        mintKeypair.publicKey,
-        associatedTokenAddress,
-        payer.publicKey,
-        totalSupply * Math.pow(10, decimals),
-        [],
-        TOKEN_PROGRAM_ID
-      )
+  // 5. Mint the whole fixed supply into the vault; the creator buys through the curve like everyone else
+  transaction.add(
+    createMintToInstruction(
+      mintKeypair.publicKey,
+      vaultAddress,
+      payer.publicKey,
+      BigInt(totalSupply) * BigInt(10) ** BigInt(decimals),
+      [],
+      TOKEN_PROGRAM_ID
     )
+  )
+  
+  // 6. Revoke mint authority in the same transaction, so supply can never grow after launch
+  transaction.add(
+    createSetAuthorityInstruction(
+      mintKeypair.publicKey,
+      payer.publicKey,
+      AuthorityType.MintTokens,
+      null,
+      [],
+      TOKEN_PROGRAM_ID
+    )
+  )
+
+  return {
+    transaction,
+    mintKeypair,
+    vaultAddress,
+    metadataUri,
+    metadataAddress,
+    updateAuthority,
+    processedImageUrl,
+    processedBannerUrl,
+    curveReserves,
+    initialPrice: currentPrice,
+    initialMarketCap: currentMarketCap,
+    // Lamports for each account the launch creates
+    rent: {
+      mintAccount: mintRent,
+      vaultAccount: accountRent,
+      metadataAccount: metadataRent
+    }
   }
+}
+
+type TokenLaunch = Awaited<ReturnType<typeof prepareTokenLaunch>>
+
+/**
+ * Run a prepared launch against the current chain state without sending it.
+ * Costs are in SOL; the treasury pays all of them.
+ */
+async function simulateTokenLaunch(payer: Keypair, launch: TokenLaunch) {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed')
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions: launch.transaction.instructions
+  }).compileToLegacyMessage()
+  const transaction = new VersionedTransaction(message)
+  transaction.sign([payer, launch.mintKeypair])
+
+  const [fee, simulation] = await Promise.all([
+    connection.getFeeForMessage(message, 'confirmed'),
+    connection.simulateTransaction(transaction, { sigVerify: true, commitment: 'confirmed' })
+  ])
+
+  const rent = launch.rent
+  const networkFee = fee.value ?? 0
+  const total = rent.mintAccount + rent.vaultAccount + rent.metadataAccount + networkFee
+
+  return {
+    costs: {
+      mintAccount: rent.mintAccount / LAMPORTS_PER_SOL,
+      vaultAccount: rent.vaultAccount / LAMPORTS_PER_SOL,
+      metadataAccount: rent.metadataAccount / LAMPORTS_PER_SOL,
+      networkFee: networkFee / LAMPORTS_PER_SOL,
+      total: total / LAMPORTS_PER_SOL,
+      paidBy: 'treasury'
+    },
+    simulation: {
+      success: !simulation.value.err,
+      error: simulation.value.err,
+      logs: simulation.value.logs || [],
+      unitsConsumed: simulation.value.unitsConsumed ?? null
+    }
+  }
+}
+
+// Enhanced token creation with better error handling
+async function createSPLTokenWithEnhancedMetadata(
+  payer: Keypair,
+  creatorAddress: PublicKey,
+  decimals: number,
+  name: string,
+  symbol: string,
+  imageUrl: string,
+  bannerUrl: string | undefined,
+  totalSupply: number,
+  curve: Curve
+) {
+  const launch = await prepareTokenLaunch(
+    payer,
+    creatorAddress,
+    decimals,
+    name,
+    symbol,
+    imageUrl,
+    bannerUrl,
+    totalSupply,
+    curve
+  )
+  const { transaction, mintKeypair, rent } = launch
   
   // Send transaction with enhanced retry logic
   let signature: string | undefined
@@ -477,12 +386,17 @@ async function createSPLTokenWithEnhancedMetadata(
   return {
     mintAddress: mintKeypair.publicKey.toString(),
     signature,
-    associatedTokenAddress: associatedTokenAddress.toString(),
-    metadataUri,
-    processedImageUrl,
-    processedBannerUrl,
-    initialPrice: currentPrice,
-    initialMarketCap: currentMarketCap
+    vaultAddress: launch.vaultAddress.toString(),
+    metadataUri: launch.metadataUri,
+    metadataAddress: launch.metadataAddress.toString(),
+    updateAuthority: launch.updateAuthority.toString(),
+    processedImageUrl: launch.processedImageUrl,
+    processedBannerUrl: launch.processedBannerUrl,
+    curveReserves: launch.curveReserves,
+    initialPrice: launch.initialPrice,
+    initialMarketCap: launch.initialMarketCap,
+    // Used for bookkeeping if the confirmed transaction cannot be read back
+    estimatedRent: (rent.mintAccount + rent.vaultAccount + rent.metadataAccount) / LAMPORTS_PER_SOL
   }
 }
 
@@ -503,28 +417,9 @@ function serializeToken(token: any) {
   return serialized
 }
 
-// Get payer keypair from environment
-function getPayerKeypair(): Keypair {
-  const privateKeyString = process.env.SOLANA_PRIVATE_KEY
-  if (!privateKeyString) {
-    throw new Error('SOLANA_PRIVATE_KEY environment variable is required')
-  }
-  
-  try {
-    const privateKey = new Uint8Array(JSON.parse(privateKeyString))
-    return Keypair.fromSecretKey(privateKey)
-  } catch (error) {
-    throw new Error('Invalid SOLANA_PRIVATE_KEY format. Must be a JSON array of numbers.')
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const category = searchParams.get('category')
-    const sortBy = searchParams.get('sortBy') || 'newest'
-    const search = searchParams.get('search')
-    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100)
+    const { category, sortBy, search, limit } = parseQuery(request, tokenListQuery)
 
     let where: any = {}
 
@@ -552,8 +447,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Enhanced search functionality
-    if (search && search.trim().length > 0) {
-      const searchTerm = search.trim()
+    if (search) {
+      const searchTerm = search
       where.OR = [
         { name: { contains: searchTerm, mode: 'insensitive' } },
         { symbol: { contains: searchTerm, mode: 'insensitive' } },
@@ -588,6 +483,15 @@ export async function GET(request: NextRequest) {
       case 'riskiest':
         orderBy = { rugScore: 'desc' }
         break
+      case 'organicVolume':
+        orderBy = { organicVolume24h: 'desc' }
+        break
+    }
+
+    // Trending ranks by volume with wash trading taken out, so it cannot be bought
+    // by trading back and forth; the requested order only breaks ties
+    if (category === 'trending') {
+      orderBy = [{ organicVolume24h: 'desc' }, orderBy]
     }
 
     const tokens = await prisma.token.findMany({
@@ -601,6 +505,10 @@ export async function GET(request: NextRequest) {
         description: true,
         imageUrl: true,
         bannerUrl: true,
+        imageThumbUrl: true,
+        imageCardUrl: true,
+        imagePosterUrl: true,
+        bannerCropUrl: true,
         creatorAddress: true,
         tokenAddress: true,
         bondingCurveAddress: true,
@@ -608,42 +516,63 @@ export async function GET(request: NextRequest) {
         currentSupply: true,
         marketCap: true,
         price: true,
+        curveType: true,
+        curveParams: true,
+        virtualSolReserves: true,
+        virtualTokenReserves: true,
+        realSolReserves: true,
+        realTokenReserves: true,
         website: true,
         twitter: true,
         telegram: true,
         isGraduated: true,
         graduatedAt: true,
         rugScore: true,
+        volume24h: true,
+        washVolume24h: true,
+        organicVolume24h: true,
+        volumeAnalyzedAt: true,
         createdAt: true,
         updatedAt: true
       }
     })
 
     // Process tokens with enhanced data and proper image handling
-    const tokensWithEnhancedData = tokens.map((token: TokenFromDB) => {
+    const tokensWithEnhancedData = await Promise.all(tokens.map(async (token: TokenFromDB) => {
       const serializedToken = serializeToken(token)
       const riskLevel = RugDetector.getRiskLevel(serializedToken.rugScore) || 'MEDIUM'
       
       // Ensure image URLs are valid and accessible
       let processedImageUrl = serializedToken.imageUrl
-      if (!processedImageUrl || !validateImageUrl(processedImageUrl) || !checkLocalImageExists(processedImageUrl)) {
+      if (!processedImageUrl || !validateImageUrl(processedImageUrl) || !(await checkLocalImageExists(processedImageUrl))) {
         processedImageUrl = generateFallbackImage(serializedToken.symbol, 'logo')
       }
       
       let processedBannerUrl = serializedToken.bannerUrl
-      if (processedBannerUrl && (!validateImageUrl(processedBannerUrl) || !checkLocalImageExists(processedBannerUrl))) {
+      if (processedBannerUrl && (!validateImageUrl(processedBannerUrl) || !(await checkLocalImageExists(processedBannerUrl)))) {
         processedBannerUrl = null
       }
 
-      // Recalculate price based on current market cap for real-time accuracy
-      const currentPrice = calculateInitialPrice(serializedToken.marketCap)
+      // Price straight from the token's own curve
+      const currentPrice = BondingCurve.forToken(serializedToken).priceAt(BondingCurve.reservesOf(serializedToken))
+
+      // Variants are only good while the image they were made from is
+      const hasOwnImage = processedImageUrl === serializedToken.imageUrl
 
       return {
         ...serializedToken,
         riskLevel,
         imageUrl: processedImageUrl,
         bannerUrl: processedBannerUrl,
-        price: currentPrice, // Use calculated price instead of stored price
+        imageThumbUrl: hasOwnImage ? serializedToken.imageThumbUrl : null,
+        imageCardUrl: hasOwnImage ? serializedToken.imageCardUrl : null,
+        imagePosterUrl: hasOwnImage ? serializedToken.imagePosterUrl : null,
+        bannerCropUrl: processedBannerUrl ? serializedToken.bannerCropUrl : null,
+        price: currentPrice,
+        // Share of volume24h flagged as wash trading
+        washShare: serializedToken.volume24h > 0
+          ? Math.round((serializedToken.washVolume24h / serializedToken.volume24h) * 10000) / 100
+          : 0,
         // Add computed fields
         formattedMarketCap: serializedToken.marketCap >= 1000000 
           ? `${(serializedToken.marketCap / 1000000).toFixed(2)}M`
@@ -659,7 +588,7 @@ export async function GET(request: NextRequest) {
           : currentPrice.toFixed(4),
         timeAgo: formatTimeAgo(serializedToken.createdAt)
       }
-    })
+    }))
 
     return NextResponse.json({
       success: true,
@@ -674,50 +603,64 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
-    console.error('Error fetching tokens:', error)
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Failed to fetch tokens',
-        message: 'Internal server error'
-      }, 
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to fetch tokens')
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    // Parse request body
-    let data
+    const data = await parseBody(request, createTokenBody)
+    const { dryRun } = parseQuery(request, createTokenQuery)
+
+    // The launch budget and daily quota below are charged to creatorAddress,
+    // so the caller must be signed in as that wallet
+    const denied = requireWallet(request, data.creatorAddress)
+    if (denied) return denied
+
+    // Set enhanced defaults
+    const totalSupply = data.totalSupply || 1_000_000_000
+    const decimals = 9
+
+    // Curve family and its launch parameters
+    let curve: Curve
     try {
-      data = await request.json()
-    } catch (parseError) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Invalid JSON format in request body' 
-        }, 
-        { status: 400 }
-      )
+      curve = BondingCurve.create(data.curveType, data.curveParams)
+    } catch (curveError) {
+      throw fieldError('curveParams', curveError instanceof Error ? curveError.message : 'Invalid curve parameters')
     }
 
-    // Enhanced validation
-    const validationErrors = validateTokenData(data)
-    if (validationErrors.length > 0) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Validation failed',
-          details: validationErrors 
-        }, 
-        { status: 400 }
+    // The curve sells from the minted supply, so it cannot sell more than exists
+    if (curve.params.curveSupply > totalSupply) {
+      throw fieldError('curveParams', `Curve supply must not exceed the total supply of ${totalSupply}`)
+    }
+
+    // Previews get their own budget so they do not use up launches
+    const limit = rateLimit(request, dryRun ? 'tokens:dry-run' : 'tokens:create', data.creatorAddress)
+    if (!limit.allowed) return rateLimitResponse(limit)
+
+    // Every launch costs the treasury mint rent, so each creator gets a daily quota
+    const quotaWindowStart = new Date(Date.now() - 24 * 60 * 60 * 1000)
+    const recentLaunches = await prisma.token.findMany({
+      where: {
+        creatorAddress: data.creatorAddress,
+        createdAt: { gte: quotaWindowStart }
+      },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    if (recentLaunches.length >= DAILY_TOKEN_CREATION_LIMIT) {
+      // A slot frees up once the oldest launch in the window is a day old
+      const retryAfterMs = recentLaunches[0].createdAt.getTime() - quotaWindowStart.getTime()
+      return rateLimitResponse(
+        { allowed: false, limit: DAILY_TOKEN_CREATION_LIMIT, remaining: 0, resetMs: retryAfterMs, retryAfterMs },
+        `Daily limit of ${DAILY_TOKEN_CREATION_LIMIT} token launches per wallet reached`
       )
     }
 
     // Normalize and clean data
-    const normalizedSymbol = data.symbol.trim().toUpperCase()
-    const normalizedName = data.name.trim()
+    const normalizedSymbol = data.symbol.toUpperCase()
+    const normalizedName = data.name
 
     // Check for existing tokens
     const existingToken = await prisma.token.findFirst({
@@ -730,38 +673,64 @@ export async function POST(request: NextRequest) {
     })
 
     if (existingToken) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: `Token with ${existingToken.symbol === normalizedSymbol ? 'symbol' : 'name'} "${existingToken.symbol === normalizedSymbol ? normalizedSymbol : normalizedName}" already exists`,
-          existingToken: {
-            id: existingToken.id,
-            name: existingToken.name,
-            symbol: existingToken.symbol
-          }
-        }, 
-        { status: 409 }
-      )
+      const field = existingToken.symbol === normalizedSymbol ? 'symbol' : 'name'
+      const message = `Token with ${field} "${field === 'symbol' ? normalizedSymbol : normalizedName}" already exists`
+      return errorResponse(ErrorCode.ALREADY_EXISTS, message, 409, {
+        fields: { [field]: 'Already taken' },
+        existingToken: {
+          id: existingToken.id,
+          name: existingToken.name,
+          symbol: existingToken.symbol
+        }
+      })
     }
 
     const creatorPublicKey = new PublicKey(data.creatorAddress)
     const payer = getPayerKeypair()
     
-    // Set enhanced defaults
-    const totalSupply = data.totalSupply || 1_000_000_000
-    const decimals = 9
-    const initialBuyAmount = data.initialBuyAmount || 0
-    
     // Handle image URLs properly
-    let imageUrl = data.imageUrl?.trim()
+    let imageUrl = data.imageUrl
     if (!imageUrl || !validateImageUrl(imageUrl)) {
       imageUrl = generateFallbackImage(normalizedSymbol, 'logo')
     }
     
-    const bannerUrl = data.bannerUrl?.trim() || undefined
-    const description = data.description?.trim() || `${normalizedName} - A community-driven token on Solana`
+    const bannerUrl = data.bannerUrl
+    const description = data.description || `${normalizedName} - A community-driven token on Solana`
 
     try {
+      if (dryRun) {
+        const launch = await prepareTokenLaunch(
+          payer,
+          creatorPublicKey,
+          decimals,
+          normalizedName,
+          normalizedSymbol,
+          imageUrl,
+          bannerUrl,
+          totalSupply,
+          curve
+        )
+        const { costs, simulation } = await simulateTokenLaunch(payer, launch)
+
+        return withRateLimitHeaders(NextResponse.json({
+          success: true,
+          data: {
+            dryRun: true,
+            name: normalizedName,
+            symbol: normalizedSymbol,
+            totalSupply,
+            curveType: curve.type,
+            curveParams: curve.params,
+            imageUrl: launch.processedImageUrl,
+            bannerUrl: launch.processedBannerUrl || null,
+            initialPrice: launch.initialPrice,
+            initialMarketCap: launch.initialMarketCap,
+            costs,
+            simulation
+          }
+        }), limit)
+      }
+
       console.log('Creating enhanced SPL token on Solana...')
       
       const tokenResult = await createSPLTokenWithEnhancedMetadata(
@@ -770,20 +739,19 @@ export async function POST(request: NextRequest) {
         decimals,
         normalizedName,
         normalizedSymbol,
-        description,
         imageUrl,
         bannerUrl,
         totalSupply,
-        initialBuyAmount
+        curve
       )
 
       console.log('SPL Token created successfully:', tokenResult)
 
       const tokenAddress = tokenResult.mintAddress
-      const bondingCurveAddress = tokenAddress
+      const bondingCurveAddress = tokenResult.vaultAddress
 
-      // Use calculated pricing from token creation
-      const currentSupply = totalSupply
+      // Nothing has been sold from the curve yet
+      const currentSupply = 0
       const currentMarketCap = tokenResult.initialMarketCap || 0
       const currentPrice = tokenResult.initialPrice
 
@@ -794,11 +762,16 @@ export async function POST(request: NextRequest) {
         hasBanner: !!tokenResult.processedBannerUrl,
         hasDescription: !!description && description.length > 50,
         hasSocialLinks: !!(data.website || data.twitter || data.telegram),
-        creatorAddress: data.creatorAddress
-      })
+        creatorAddress: data.creatorAddress,
+        // Both were revoked in the launch transaction
+        mintAuthority: null,
+        freezeAuthority: null
+      }, await getRuleWeights(), await getCreatorReputation(data.creatorAddress))
       
       const riskLevel = RugDetector.getRiskLevel(rugScore) || 'MEDIUM'
 
+      const imageVariants = await tokenImageVariants(tokenResult.processedImageUrl, tokenResult.processedBannerUrl)
+
       // Create token in database with enhanced data and correct pricing
       const token = await prisma.token.create({
         data: {
@@ -807,22 +780,46 @@ export async function POST(request: NextRequest) {
           description,
           imageUrl: tokenResult.processedImageUrl,
           bannerUrl: tokenResult.processedBannerUrl || null,
-          creatorAddress: data.creatorAddress.trim(),
+          ...imageVariants,
+          creatorAddress: data.creatorAddress,
           tokenAddress,
           bondingCurveAddress,
           totalSupply,
           currentSupply,
-          website: data.website?.trim() || null,
-          twitter: data.twitter?.trim() || null,
-          telegram: data.telegram?.trim() || null,
+          curveType: curve.type,
+          curveParams: curve.params as any,
+          ...tokenResult.curveReserves,
+          website: data.website || null,
+          twitter: data.twitter || null,
+          telegram: data.telegram || null,
           rugScore,
           price: currentPrice, // Use calculated price
           marketCap: currentMarketCap,
+          peakMarketCap: currentMarketCap,
           isGraduated: false,
           graduatedAt: null
         }
       })
 
+      // Optional copies of what the metadata route serves; never fails the request
+      const metadataMirrors = await mirrorMetadata(token)
+
+      // First point of the score history; later ones come from trades and the scheduler
+      try {
+        await recomputeRugScore(token.id, 'launch')
+      } catch (snapshotError) {
+        console.error('Failed to record launch rug score:', snapshotError)
+      }
+
+      // The token exists on-chain by now, so a bookkeeping failure must not fail the request
+      let creationCost = { rent: tokenResult.estimatedRent, networkFee: 0 }
+      try {
+        creationCost = await Ledger.payerCost(tokenResult.signature) || creationCost
+        await Ledger.recordMintRent(prisma, token.id, tokenResult.signature, creationCost)
+      } catch (ledgerError) {
+        console.error('Failed to record mint rent in ledger:', ledgerError)
+      }
+
       console.log(`Enhanced token created: ${token.name} (${token.symbol})`)
       console.log(`Token Address: ${tokenAddress}`)
       console.log(`Current Price: ${currentPrice}`)
@@ -832,15 +829,20 @@ export async function POST(request: NextRequest) {
 
       const serializedToken = serializeToken(token)
 
-      return NextResponse.json({
+      return withRateLimitHeaders(NextResponse.json({
         success: true,
         message: 'Token created successfully with proper pricing and image handling',
         data: {
           ...serializedToken,
           riskLevel,
           transactionSignature: tokenResult.signature,
-          associatedTokenAddress: tokenResult.associatedTokenAddress,
+          vaultAddress: tokenResult.vaultAddress,
+          mintAuthority: null,
+          freezeAuthority: null,
           metadataUri: tokenResult.metadataUri,
+          metadataAddress: tokenResult.metadataAddress,
+          metadataMirrors,
+          metadataUpdateAuthority: tokenResult.updateAuthority,
           explorerUrl: `https://explorer.solana.com/address/${tokenAddress}?cluster=${process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet'}`,
           transactionUrl: `https://explorer.solana.com/tx/${tokenResult.signature}?cluster=${process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet'}`,
           // Enhanced response data
@@ -858,10 +860,15 @@ export async function POST(request: NextRequest) {
             : currentPrice < 1 
             ? currentPrice.toFixed(6)
             : currentPrice.toFixed(4),
-          estimatedCreationCost: '0.02 SOL',
-          estimatedGas: '~0.001 SOL'
+          // In SOL, as the treasury paid it; rent only when the confirmed transaction could not be read back
+          creationCost: {
+            rent: creationCost.rent,
+            networkFee: creationCost.networkFee,
+            total: creationCost.rent + creationCost.networkFee,
+            paidBy: 'treasury'
+          }
         }
-      }, { status: 201 })
+      }, { status: 201 }), limit)
 
     } catch (solanaError) {
       console.error('Solana operation failed:', solanaError)
@@ -869,57 +876,34 @@ export async function POST(request: NextRequest) {
       const error = solanaError as Error
       
       // Enhanced error handling
-      let errorCode = 'BLOCKCHAIN_ERROR'
+      let errorCode: ErrorCode = ErrorCode.BLOCKCHAIN_ERROR
       let statusCode = 500
       
       if (error.message?.includes('insufficient funds')) {
-        errorCode = 'INSUFFICIENT_FUNDS'
+        errorCode = ErrorCode.INSUFFICIENT_FUNDS
         statusCode = 400
       } else if (error.message?.includes('blockhash not found')) {
-        errorCode = 'NETWORK_CONGESTION'
+        errorCode = ErrorCode.NETWORK_CONGESTION
         statusCode = 503
       } else if (error.message?.includes('Transaction was not confirmed')) {
-        errorCode = 'TRANSACTION_TIMEOUT'
+        errorCode = ErrorCode.TRANSACTION_TIMEOUT
         statusCode = 408
       }
       
-      return NextResponse.json(
-        { 
-          success: false,
-          error: getErrorMessage(errorCode),
-          code: errorCode,
-          details: error.message
-        },
-        { status: statusCode }
-      )
+      return errorResponse(errorCode, ERROR_MESSAGES[errorCode], statusCode, { details: error.message })
     }
 
   } catch (error) {
-    console.error('Error creating token:', error)
-    
     const err = error as any
     
     if (err.code === 'P2002') {
       const field = err.meta?.target?.[0] || 'field'
-      return NextResponse.json(
-        { 
-          success: false,
-          error: `Token with this ${field} already exists`,
-          code: 'DUPLICATE_ENTRY'
-        },
-        { status: 409 }
-      )
+      return errorResponse(ErrorCode.ALREADY_EXISTS, `Token with this ${field} already exists`, 409, {
+        fields: { [field]: 'Already taken' }
+      })
     }
     
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Failed to create token',
-        message: 'Internal server error',
-        code: 'INTERNAL_ERROR'
-      }, 
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Failed to create token')
 
   } finally {
     await prisma.$disconnect()
@@ -940,16 +924,3 @@ function formatTimeAgo(dateString: string | Date) {
   if (hours > 0) return `${hours}h ago`
   return `${minutes}m ago`
 }
-
-// Fixed error message function with proper typing
-function getErrorMessage(code: string): string {
-  const messages: Record<string, string> = {
-    'INSUFFICIENT_FUNDS': 'Insufficient funds for token creation. Need at least 0.02 SOL.',
-    'NETWORK_CONGESTION': 'Network congestion detected. Please try again.',
-    'TRANSACTION_TIMEOUT': 'Transaction timeout. Please check if the token was created.',
-    'BLOCKCHAIN_ERROR': 'Failed to create token on Solana blockchain',
-    'DUPLICATE_ENTRY': 'Token already exists',
-    'INTERNAL_ERROR': 'Internal server error'
-  }
-  return messages[code] || 'Unknown error occurred'
-}
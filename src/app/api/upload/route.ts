@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { v4 as uuidv4 } from 'uuid'
+import { getStorage } from '@/lib/storage'
+import { MAX_IMAGE_SIDE, MIN_IMAGE_SIDE, processImage } from '@/lib/images'
+import { rateLimit, rateLimitResponse, withRateLimitHeaders } from '@/lib/rateLimit'
+import { check, errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { uploadForm } from '@/lib/schemas'
 
 // Configuration
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
@@ -27,35 +32,18 @@ function validateFile(file: File) {
   return errors
 }
 
-// Generate safe filename
-function generateFilename(originalName: string) {
-  const ext = originalName.split('.').pop()?.toLowerCase() || 'jpg'
-  const baseName = originalName.split('.')[0].replace(/[^a-zA-Z0-9]/g, '_')
-  const uuid = uuidv4().split('-')[0]
-  const timestamp = Date.now()
-  return `${timestamp}_${baseName}_${uuid}.${ext}`
-}
-
-// Create optimized data URL
-function createOptimizedDataUrl(buffer: Buffer, mimeType: string): string {
-  // For very large images, we might want to compress them
-  // But for now, just create the data URL
-  const base64 = buffer.toString('base64')
-  return `data:${mimeType};base64,${base64}`
-}
-
 // POST handler for file uploads
 export async function POST(request: NextRequest) {
   try {
     console.log('Upload API called')
+
+    const limit = rateLimit(request, 'upload')
+    if (!limit.allowed) return rateLimitResponse(limit)
     
     // Check content length to avoid memory issues
     const contentLength = request.headers.get('content-length')
     if (contentLength && parseInt(contentLength) > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: 'File too large' },
-        { status: 413 }
-      )
+      return errorResponse(ErrorCode.PAYLOAD_TOO_LARGE, 'File too large', 413)
     }
     
     // Parse form data with error handling
@@ -64,20 +52,17 @@ export async function POST(request: NextRequest) {
       formData = await request.formData()
     } catch (parseError) {
       console.error('Failed to parse form data:', parseError)
-      return NextResponse.json(
-        { error: 'Invalid form data' },
-        { status: 400 }
-      )
+      return errorResponse(ErrorCode.INVALID_JSON, 'Invalid form data', 400)
     }
     
     const file = formData.get('image') as File
+    const { kind } = check(uploadForm, { kind: formData.get('kind') })
     
     if (!file) {
       console.error('No file provided in request')
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      )
+      return errorResponse(ErrorCode.VALIDATION_FAILED, 'No file provided', 400, {
+        fields: { image: 'Required' }
+      })
     }
     
     console.log('File received:', {
@@ -90,15 +75,11 @@ export async function POST(request: NextRequest) {
     const validationErrors = validateFile(file)
     if (validationErrors.length > 0) {
       console.error('File validation failed:', validationErrors)
-      return NextResponse.json(
-        { error: validationErrors[0] },
-        { status: 400 }
-      )
+      return errorResponse(ErrorCode.VALIDATION_FAILED, validationErrors[0], 400, {
+        fields: { image: validationErrors[0] }
+      })
     }
     
-    // Generate safe filename
-    const filename = generateFilename(file.name)
-    
     // Convert file to buffer with memory management
     let buffer: Buffer
     try {
@@ -107,73 +88,43 @@ export async function POST(request: NextRequest) {
       
       // Double-check size after reading
       if (buffer.length > MAX_FILE_SIZE) {
-        return NextResponse.json(
-          { error: 'File too large after reading' },
-          { status: 413 }
-        )
+        return errorResponse(ErrorCode.PAYLOAD_TOO_LARGE, 'File too large after reading', 413)
       }
     } catch (bufferError) {
       console.error('Failed to read file buffer:', bufferError)
-      return NextResponse.json(
-        { error: 'Failed to process file' },
-        { status: 500 }
-      )
+      return errorResponse(ErrorCode.INTERNAL_ERROR, 'Failed to process file', 500)
     }
     
-    // Create data URL (this is the only option for Vercel serverless)
-    let publicUrl: string
-    try {
-      publicUrl = createOptimizedDataUrl(buffer, file.type)
-      console.log('Data URL created, length:', publicUrl.length)
-    } catch (dataUrlError) {
-      console.error('Failed to create data URL:', dataUrlError)
-      return NextResponse.json(
-        { error: 'Failed to process image' },
-        { status: 500 }
-      )
-    }
+    // Checked by content, re-encoded without metadata and stored under a content-hashed key
+    const image = await processImage(buffer, kind, file.type)
     
-    console.log('File processed successfully:', {
-      filename,
-      originalSize: file.size,
-      processedSize: buffer.length,
-      dataUrlLength: publicUrl.length
+    console.log('Image stored successfully:', {
+      key: image.key,
+      storage: getStorage().name,
+      variants: Object.keys(image.variants),
+      size: image.size
     })
     
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       success: true,
-      filename,
-      url: publicUrl,
-      size: buffer.length,
-      type: file.type,
+      filename: image.key,
+      url: image.url,
+      variants: image.variants,
+      width: image.width,
+      height: image.height,
+      animated: image.animated,
+      size: image.size,
+      type: image.contentType,
       originalSize: file.size
-    })
+    }), limit)
     
   } catch (error: any) {
-    console.error('Upload error:', error)
-    
     // Handle specific error types
-    if (error.name === 'PayloadTooLargeError') {
-      return NextResponse.json(
-        { error: 'File too large' },
-        { status: 413 }
-      )
-    }
-    
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      return NextResponse.json(
-        { error: 'File size limit exceeded' },
-        { status: 413 }
-      )
+    if (error.name === 'PayloadTooLargeError' || error.code === 'LIMIT_FILE_SIZE') {
+      return errorResponse(ErrorCode.PAYLOAD_TOO_LARGE, 'File size limit exceeded', 413)
     }
     
-    return NextResponse.json(
-      { 
-        error: 'Upload failed',
-        details: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
-      },
-      { status: 500 }
-    )
+    return handleRouteError(error, 'Upload failed')
   }
 }
 
@@ -183,7 +134,8 @@ export async function GET() {
     message: 'Upload API is working',
     maxFileSize: `${MAX_FILE_SIZE / (1024 * 1024)}MB`,
     allowedTypes: ALLOWED_TYPES,
-    storage: 'data-url (serverless compatible)',
+    dimensions: { min: MIN_IMAGE_SIDE, max: MAX_IMAGE_SIDE },
+    storage: getStorage().name,
     environment: process.env.NODE_ENV || 'development'
   })
 }
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { check, handleRouteError } from '@/lib/apiResponse'
+import { addressParams } from '@/lib/schemas'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ address: string }> }
 ) {
   try {
-    const { address } = await params
+    const { address } = check(addressParams, await params)
     const connection = new Connection(process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com')
     
     const publicKey = new PublicKey(address)
@@ -15,7 +17,6 @@ export async function GET(
 
     return NextResponse.json({ balance: solBalance })
   } catch (error) {
-    console.error('Error fetching SOL balance:', error)
-    return NextResponse.json({ error: 'Failed to fetch balance' }, { status: 500 })
+    return handleRouteError(error, 'Failed to fetch balance')
   }
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/database'
+import { check, errorResponse, handleRouteError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { tokenBalanceParams } from '@/lib/schemas'
 
 function serializeBigInt(obj: any): any {
   if (obj === null || obj === undefined) return obj
@@ -20,11 +23,7 @@ export async function GET(
   { params }: { params: Promise<{ address: string; tokenId: string }> }
 ) {
   try {
-    const { address, tokenId } = await params
-
-    if (!address || !tokenId) {
-      return NextResponse.json({ error: 'Address and tokenId are required' }, { status: 400 })
-    }
+    const { address, tokenId } = check(tokenBalanceParams, await params)
 
     // Calculate user's token balance from transactions
     const transactions = await prisma.transaction.findMany({
@@ -71,7 +70,7 @@ export async function GET(
     })
 
     if (!token) {
-      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+      return errorResponse(ErrorCode.NOT_FOUND, 'Token not found', 404)
     }
 
     const tokenPrice = parseFloat(token.price.toString())
@@ -107,12 +106,7 @@ export async function GET(
     return NextResponse.json(serializeBigInt(response))
 
   } catch (error) {
-    console.error('Error fetching token balance:', error)
-    return NextResponse.json({ 
-      success: false,
-      error: 'Failed to fetch token balance',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to fetch token balance')
   }
 }
 
@@ -122,11 +116,7 @@ export async function POST(
   { params }: { params: Promise<{ address: string; tokenId: string }> }
 ) {
   try {
-    const { address, tokenId } = await params
-
-    if (!address || !tokenId) {
-      return NextResponse.json({ error: 'Address and tokenId are required' }, { status: 400 })
-    }
+    const { address, tokenId } = check(tokenBalanceParams, await params)
 
     // Force recalculation by calling GET endpoint logic
     const transactions = await prisma.transaction.findMany({
@@ -157,11 +147,7 @@ export async function POST(
     })
 
   } catch (error) {
-    console.error('Error recalculating token balance:', error)
-    return NextResponse.json({
-      success: false,
-      error: 'Failed to recalculate balance'
-    }, { status: 500 })
+    return handleRouteError(error, 'Failed to recalculate balance')
   }
 
 }
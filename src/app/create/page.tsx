@@ -2,6 +2,9 @@
 import { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { X, Upload, Globe, Sparkles, Rocket, Shield, TrendingUp, ChevronRight, Check, AlertCircle, Image, Zap } from 'lucide-react'
+import { CURVE_TYPES, CurveType, DEFAULT_CURVE_PARAMS } from '@/lib/curves'
+import { ApiErrorBody, ErrorCode, FieldErrors } from '@/lib/errors'
+import { apiUtils } from '@/lib/api'
 
 interface ImageUploadState {
   file: File | null
@@ -10,6 +13,20 @@ interface ImageUploadState {
   uploaded: boolean
 }
 
+const CURVE_OPTIONS: Record<CurveType, { label: string; description: string }> = {
+  CONSTANT_PRODUCT: { label: 'Constant Product', description: 'Classic x*y=k curve, price accelerates as supply sells out' },
+  LINEAR: { label: 'Linear', description: 'Price rises by the same amount for every token sold' },
+  EXPONENTIAL: { label: 'Exponential', description: 'Price grows by the same percentage for every token sold' }
+}
+
+const CURVE_PARAM_LABELS: Record<string, string> = {
+  virtualSolReserves: 'Virtual SOL Reserves',
+  virtualTokenReserves: 'Virtual Token Reserves',
+  startPrice: 'Start Price (SOL)',
+  endPrice: 'End Price (SOL)',
+  curveSupply: 'Tokens Sold on Curve'
+}
+
 interface CreateTokenResponse {
   success: boolean
   data?: {
@@ -26,11 +43,38 @@ interface CreateTokenResponse {
     formattedPrice: string
     formattedMarketCap: string
   }
-  error?: string
-  details?: string[]
-  code?: string
+  error?: ApiErrorBody
+}
+
+// Result of POST /api/tokens?dryRun=true; costs are in SOL
+interface LaunchPreview {
+  initialPrice: number
+  initialMarketCap: number
+  costs: {
+    mintAccount: number
+    vaultAccount: number
+    metadataAccount: number
+    networkFee: number
+    total: number
+  }
+  simulation: {
+    success: boolean
+    error: unknown
+    logs: string[]
+    unitsConsumed: number | null
+  }
+}
+
+const COST_LABELS: Record<string, string> = {
+  mintAccount: 'Mint account rent',
+  vaultAccount: 'Curve vault rent',
+  metadataAccount: 'Metadata account rent',
+  networkFee: 'Network fee'
 }
 
+// Fields shown on the first step; a server error on one of them sends the user back there
+const STEP_1_FIELDS = ['name', 'symbol', 'description', 'website', 'twitter', 'telegram']
+
 const useWallet = () => {
   const [connected, setConnected] = useState(false)
   const [publicKey, setPublicKey] = useState<string | null>(null)
@@ -58,7 +102,10 @@ export default function CreatePage() {
   const [step, setStep] = useState(1)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const [success, setSuccess] = useState<CreateTokenResponse['data'] | null>(null)
+  const [preview, setPreview] = useState<LaunchPreview | null>(null)
+  const [showLogs, setShowLogs] = useState(false)
   
   const [formData, setFormData] = useState({
     name: '',
@@ -70,7 +117,9 @@ export default function CreatePage() {
     twitter: '',
     telegram: '',
     initialBuyAmount: '',
-    slippage: 1
+    slippage: 1,
+    curveType: 'CONSTANT_PRODUCT' as CurveType,
+    curveParams: {} as Record<string, string>
   })
   
   const [logoUpload, setLogoUpload] = useState<ImageUploadState>({
@@ -88,20 +137,21 @@ export default function CreatePage() {
   })
 
   // Upload image to server
-  const uploadImage = async (file: File): Promise<string> => {
+  const uploadImage = async (file: File, kind: 'logo' | 'banner'): Promise<string> => {
     const formData = new FormData()
     formData.append('image', file)
+    formData.append('kind', kind)
     
     const response = await fetch('/api/upload', {
       method: 'POST',
       body: formData,
     })
     
+    const data = await response.json()
     if (!response.ok) {
-      throw new Error('Failed to upload image')
+      throw new Error(apiUtils.formatError(data))
     }
     
-    const data = await response.json()
     return data.url
   }
 
@@ -111,6 +161,7 @@ export default function CreatePage() {
     const preview = URL.createObjectURL(file)
     const uploadState = type === 'logo' ? logoUpload : bannerUpload
     const setUploadState = type === 'logo' ? setLogoUpload : setBannerUpload
+    const field = type === 'logo' ? 'imageUrl' : 'bannerUrl'
 
     setUploadState({
       file,
@@ -118,9 +169,10 @@ export default function CreatePage() {
       uploading: true,
       uploaded: false
     })
+    clearFieldError(field)
 
     try {
-      const imageUrl = await uploadImage(file)
+      const imageUrl = await uploadImage(file, type)
       
       setUploadState({
         file,
@@ -132,10 +184,14 @@ export default function CreatePage() {
       // Update form data with uploaded image URL
       setFormData(prev => ({
         ...prev,
-        [type === 'logo' ? 'imageUrl' : 'bannerUrl']: imageUrl
+        [field]: imageUrl
       }))
     } catch (error) {
       console.error('Image upload failed:', error)
+      setFieldErrors(prev => ({
+        ...prev,
+        [field]: error instanceof Error ? error.message : 'Failed to upload image'
+      }))
       setUploadState({
         file: null,
         preview: null,
@@ -171,8 +227,24 @@ export default function CreatePage() {
     }))
   }
 
+  const clearFieldError = (field: string) => {
+    setFieldErrors(({ [field]: _, ...rest }) => rest)
+  }
+
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }))
+    clearFieldError(field)
+  }
+
+  const handleCurveParamChange = (key: string, value: string) => {
+    setFormData(prev => ({ ...prev, curveParams: { ...prev.curveParams, [key]: value } }))
+    clearFieldError('curveParams')
+  }
+
+  const handleCurveTypeChange = (curveType: CurveType) => {
+    // Parameters differ per curve family, so start from that family's defaults
+    setFormData(prev => ({ ...prev, curveType, curveParams: {} }))
+    clearFieldError('curveParams')
   }
 
   const validateStep1 = () => {
@@ -188,7 +260,8 @@ export default function CreatePage() {
     setStep(2)
   }
 
-  const handleCreateToken = async () => {
+  // Send the launch request; a dry run returns the preview instead of creating the token
+  const submitToken = async (dryRun: boolean) => {
     if (!connected || !publicKey) {
       setError('Please connect your wallet first')
       return
@@ -202,6 +275,7 @@ export default function CreatePage() {
 
     setLoading(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       // Prepare request data
@@ -217,11 +291,17 @@ export default function CreatePage() {
         creatorAddress: publicKey,
         initialBuyAmount: formData.initialBuyAmount ? parseFloat(formData.initialBuyAmount) : 0,
         totalSupply: 1000000000, // 1 billion tokens
+        curveType: formData.curveType,
+        curveParams: Object.fromEntries(
+          Object.entries(formData.curveParams)
+            .filter(([, value]) => value !== '')
+            .map(([key, value]) => [key, parseFloat(value)])
+        )
       }
 
-      console.log('Creating token with data:', requestData)
+      console.log(dryRun ? 'Previewing token with data:' : 'Creating token with data:', requestData)
 
-      const response = await fetch('/api/tokens', {
+      const response = await fetch(dryRun ? '/api/tokens?dryRun=true' : '/api/tokens', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -229,25 +309,33 @@ export default function CreatePage() {
         body: JSON.stringify(requestData),
       })
 
-      const result: CreateTokenResponse = await response.json()
+      const result = await response.json()
 
-      if (!response.ok) {
-        // Handle specific error codes
-        if (result.code === 'INVALID_ADDRESS' || result.code === 'INVALID_ADDRESS_FORMAT') {
+      if (!response.ok || !result.success || !result.data) {
+        const fields = apiUtils.getFieldErrors(result)
+        if (fields.creatorAddress) {
           throw new Error('Invalid wallet address. Please reconnect your wallet.')
         }
-        throw new Error(result.error || 'Failed to create token')
+        if (apiUtils.getErrorCode(result) === ErrorCode.VALIDATION_FAILED || Object.keys(fields).length > 0) {
+          setFieldErrors(fields)
+          if (Object.keys(fields).some((field) => STEP_1_FIELDS.includes(field))) setStep(1)
+          else if (Object.keys(fields).length > 0) setStep(2)
+        }
+        throw new Error(apiUtils.formatError(result))
       }
 
-      if (result.success && result.data) {
-        setSuccess(result.data)
-        console.log('Token created successfully:', result.data)
-      } else {
-        throw new Error(result.error || 'Unknown error occurred')
+      if (dryRun) {
+        setPreview(result.data as LaunchPreview)
+        setShowLogs(!result.data.simulation.success)
+        setStep(3)
+        return
       }
 
+      setSuccess((result as CreateTokenResponse).data!)
+      console.log('Token created successfully:', result.data)
+
     } catch (error) {
-      console.error('Token creation failed:', error)
+      console.error(dryRun ? 'Token preview failed:' : 'Token creation failed:', error)
       const errorMessage = error instanceof Error ? error.message : 'Failed to create token'
       setError(errorMessage)
       
@@ -346,7 +434,9 @@ export default function CreatePage() {
                   twitter: '',
                   telegram: '',
                   initialBuyAmount: '',
-                  slippage: 1
+                  slippage: 1,
+                  curveType: 'CONSTANT_PRODUCT',
+                  curveParams: {}
                 })
                 setLogoUpload({
                   file: null,
@@ -484,6 +574,7 @@ export default function CreatePage() {
                     </div>
                   )}
                 </div>
+                {fieldErrors.imageUrl && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.imageUrl}</p>}
               </div>
 
               {/* Banner Upload */}
@@ -540,11 +631,12 @@ export default function CreatePage() {
                           <Upload size={24} className="text-white/40 group-hover:text-[#C0283D]/60" />
                         </div>
                         <p className="text-sm text-white/60 mb-2">Click to upload</p>
-                        <p className="text-xs text-white/40">800x400px recommended</p>
+                        <p className="text-xs text-white/40">1500x500px recommended</p>
                       </label>
                     </div>
                   )}
                 </div>
+                {fieldErrors.bannerUrl && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.bannerUrl}</p>}
               </div>
             </div>
 
@@ -563,6 +655,7 @@ export default function CreatePage() {
                     maxLength={32}
                     className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-white/30 focus:border-[#C0283D]/50 focus:outline-none focus:ring-2 focus:ring-[#C0283D]/20 transition-all"
                   />
+                  {fieldErrors.name && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.name}</p>}
                 </div>
 
                 <div>
@@ -577,6 +670,7 @@ export default function CreatePage() {
                     maxLength={10}
                     className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-white/30 focus:border-[#C0283D]/50 focus:outline-none focus:ring-2 focus:ring-[#C0283D]/20 transition-all"
                   />
+                  {fieldErrors.symbol && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.symbol}</p>}
                 </div>
               </div>
 
@@ -592,6 +686,7 @@ export default function CreatePage() {
                   rows={4}
                   className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-white/30 focus:border-[#C0283D]/50 focus:outline-none focus:ring-2 focus:ring-[#C0283D]/20 transition-all resize-none"
                 />
+                {fieldErrors.description && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.description}</p>}
               </div>
             </div>
 
@@ -622,6 +717,11 @@ export default function CreatePage() {
                   className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3.5 text-white placeholder-white/30 focus:border-[#C0283D]/50 focus:outline-none focus:ring-2 focus:ring-[#C0283D]/20 transition-all"
                 />
               </div>
+              {['website', 'twitter', 'telegram'].filter((field) => fieldErrors[field]).map((field) => (
+                <p key={field} className="text-xs text-red-500/80 mt-2">
+                  {field.charAt(0).toUpperCase() + field.slice(1)}: {fieldErrors[field]}
+                </p>
+              ))}
             </div>
 
             {/* Next Button */}
@@ -677,6 +777,46 @@ export default function CreatePage() {
             {/* Launch Configuration */}
             <div className="bg-gradient-to-r from-white/[0.02] to-white/[0.01] backdrop-blur-sm rounded-2xl p-8 border border-white/10">
               <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-white/80 mb-3">
+                    Bonding Curve
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {CURVE_TYPES.map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => handleCurveTypeChange(type)}
+                        className={`px-4 py-3 rounded-xl text-left transition-all ${
+                          formData.curveType === type
+                            ? 'bg-[#C0283D] text-white shadow-lg shadow-[#C0283D]/30'
+                            : 'bg-white/5 text-white/60 hover:bg-white/10 border border-white/10'
+                        }`}
+                      >
+                        <p className="font-medium">{CURVE_OPTIONS[type].label}</p>
+                        <p className="text-xs opacity-70 mt-1">{CURVE_OPTIONS[type].description}</p>
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+                    {Object.entries(DEFAULT_CURVE_PARAMS[formData.curveType]).map(([key, defaultValue]) => (
+                      <div key={key}>
+                        <label className="block text-xs text-white/40 mb-2">{CURVE_PARAM_LABELS[key] || key}</label>
+                        <input
+                          type="number"
+                          value={formData.curveParams[key] ?? ''}
+                          onChange={(e) => handleCurveParamChange(key, e.target.value)}
+                          placeholder={String(defaultValue)}
+                          min="0"
+                          className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-white/30 focus:border-[#C0283D]/50 focus:outline-none focus:ring-2 focus:ring-[#C0283D]/20 transition-all"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-white/40 mt-2">Leave a parameter empty to use the default shown</p>
+                  {fieldErrors.curveParams && <p className="text-xs text-red-500/80 mt-2">{fieldErrors.curveParams}</p>}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-white/80 mb-3">
                     Initial Buy Amount (Optional)
@@ -785,19 +925,19 @@ export default function CreatePage() {
               </button>
               
               <button
-                onClick={handleCreateToken}
+                onClick={() => submitToken(true)}
                 disabled={loading || !connected}
                 className="group px-8 py-4 bg-gradient-to-r from-[#C0283D] to-[#C0283D]/80 text-white rounded-xl font-semibold transition-all hover:shadow-lg hover:shadow-[#C0283D]/30 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-3"
               >
                 {loading ? (
                   <>
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Creating Token...
+                    Simulating Launch...
                   </>
                 ) : (
                   <>
-                    <Rocket size={20} />
-                    Launch Token
+                    Preview Launch
+                    <ChevronRight size={20} />
                   </>
                 )}
               </button>
@@ -822,6 +962,110 @@ export default function CreatePage() {
             )}
           </motion.div>
         )}
+
+        {step === 3 && preview && (
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="space-y-8"
+          >
+            {/* Simulation Result */}
+            <div className={`rounded-xl p-4 flex items-start gap-3 border ${
+              preview.simulation.success
+                ? 'bg-green-500/10 border-green-500/20'
+                : 'bg-red-500/10 border-red-500/20'
+            }`}>
+              {preview.simulation.success
+                ? <Check size={20} className="text-green-400 mt-0.5" />
+                : <AlertCircle size={20} className="text-red-500 mt-0.5" />}
+              <div>
+                <p className={`text-sm font-medium ${preview.simulation.success ? 'text-green-400' : 'text-red-500'}`}>
+                  {preview.simulation.success ? 'Launch simulated successfully' : 'Launch would fail'}
+                </p>
+                <p className="text-xs text-white/50 mt-1">
+                  {preview.simulation.success
+                    ? `Nothing has been created yet${preview.simulation.unitsConsumed ? ` - used ${preview.simulation.unitsConsumed.toLocaleString()} compute units` : ''}`
+                    : 'Check the simulation logs below, then go back and adjust your token'}
+                </p>
+              </div>
+            </div>
+
+            {/* Launch Price */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-gradient-to-br from-[#C0283D]/10 to-transparent border border-[#C0283D]/20 rounded-2xl p-6">
+                <p className="text-xs text-white/40">Initial Price</p>
+                <p className="text-lg font-bold text-white">
+                  {preview.initialPrice < 0.000001 ? preview.initialPrice.toExponential(2) : preview.initialPrice.toFixed(8)} SOL
+                </p>
+              </div>
+              <div className="bg-gradient-to-br from-white/5 to-transparent border border-white/10 rounded-2xl p-6">
+                <p className="text-xs text-white/40">Curve</p>
+                <p className="text-lg font-bold text-white">{CURVE_OPTIONS[formData.curveType].label}</p>
+              </div>
+            </div>
+
+            {/* Cost Breakdown */}
+            <div className="bg-gradient-to-r from-white/[0.02] to-white/[0.01] backdrop-blur-sm rounded-2xl p-8 border border-white/10">
+              <div className="space-y-4">
+                {Object.entries(COST_LABELS).map(([key, label]) => (
+                  <div key={key} className="flex justify-between items-center pb-4 border-b border-white/10">
+                    <span className="text-white/60">{label}</span>
+                    <span className="text-white font-mono">{preview.costs[key as keyof LaunchPreview['costs']].toFixed(6)} SOL</span>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center">
+                  <span className="text-lg font-semibold text-white">Launch Cost</span>
+                  <span className="text-2xl font-bold text-[#C0283D]">{preview.costs.total.toFixed(6)} SOL</span>
+                </div>
+                <p className="text-xs text-white/40">Paid by the platform - launching is free for you</p>
+              </div>
+            </div>
+
+            {/* Simulation Logs */}
+            <div className="bg-black/50 rounded-2xl border border-white/10">
+              <button
+                onClick={() => setShowLogs(!showLogs)}
+                className="w-full px-6 py-4 flex justify-between items-center text-sm text-white/60 hover:text-white transition-all"
+              >
+                <span>Simulation logs ({preview.simulation.logs.length})</span>
+                <ChevronRight size={16} className={`transition-transform ${showLogs ? 'rotate-90' : ''}`} />
+              </button>
+              {showLogs && (
+                <pre className="px-6 pb-6 text-xs text-white/50 font-mono whitespace-pre-wrap break-all max-h-80 overflow-y-auto">
+                  {preview.simulation.logs.join('\n') || 'No logs returned'}
+                </pre>
+              )}
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() => setStep(2)}
+                className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl font-medium text-white transition-all"
+              >
+                Back
+              </button>
+
+              <button
+                onClick={() => submitToken(false)}
+                disabled={loading || !connected || !preview.simulation.success}
+                className="group px-8 py-4 bg-gradient-to-r from-[#C0283D] to-[#C0283D]/80 text-white rounded-xl font-semibold transition-all hover:shadow-lg hover:shadow-[#C0283D]/30 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-3"
+              >
+                {loading ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    Creating Token...
+                  </>
+                ) : (
+                  <>
+                    <Rocket size={20} />
+                    Confirm Launch
+                  </>
+                )}
+              </button>
+            </div>
+          </motion.div>
+        )}
       </div>
     </div>
   )
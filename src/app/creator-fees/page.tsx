@@ -19,7 +19,8 @@ import {
   ArrowDownRight,
   Coins
 } from 'lucide-react'
-import { tokenApi } from '@/lib/api'
+import { apiUtils, tokenApi } from '@/lib/api'
+import { buildClaimMessage } from '@/lib/messages'
 import toast from 'react-hot-toast'
 
 interface CreatorFee {
@@ -50,7 +51,7 @@ interface CreatorFeesResponse {
 }
 
 export default function CreatorFeesPage() {
-  const { connected, publicKey } = useWallet()
+  const { connected, publicKey, signMessage } = useWallet()
   const [fees, setFees] = useState<CreatorFee[]>([])
   const [loading, setLoading] = useState(true)
   const [claimingFees, setClaimingFees] = useState<string | null>(null)
@@ -104,6 +105,29 @@ export default function CreatorFeesPage() {
     }
   }
 
+  // Prove control of the creator wallet; the same key makes retries resume one claim
+  const signClaim = async (tokenAddress?: string) => {
+    if (!publicKey || !signMessage) {
+      throw new Error('Your wallet does not support message signing')
+    }
+
+    const idempotencyKey = crypto.randomUUID()
+    const issuedAt = new Date().toISOString()
+    const message = buildClaimMessage({
+      creatorAddress: publicKey.toString(),
+      tokenAddress,
+      idempotencyKey,
+      issuedAt
+    })
+    const signature = await signMessage(new TextEncoder().encode(message))
+
+    return {
+      idempotencyKey,
+      issuedAt,
+      signature: btoa(String.fromCharCode(...signature))
+    }
+  }
+
   const handleClaimFees = async (tokenAddress: string) => {
     if (!publicKey) return
     
@@ -116,25 +140,26 @@ export default function CreatorFeesPage() {
         },
         body: JSON.stringify({
           creatorAddress: publicKey.toString(),
-          tokenAddress
+          tokenAddress,
+          ...(await signClaim(tokenAddress))
         })
       })
       
-      if (!response.ok) {
-        throw new Error('Failed to claim fees')
-      }
-      
       const result = await response.json()
       
-      if (result.success) {
-        toast.success('Fees claimed successfully!')
-        fetchCreatorFees() // Refresh the data
+      if (!response.ok || !result.success) {
+        throw new Error(apiUtils.formatError(result))
+      }
+      
+      if (result.data.status !== 'CONFIRMED') {
+        toast.success('Claim sent, waiting for confirmation')
       } else {
-        throw new Error(result.error || 'Failed to claim fees')
+        toast.success('Fees claimed successfully!')
       }
+      fetchCreatorFees() // Refresh the data
     } catch (error) {
       console.error('Claim fees error:', error)
-      toast.error('Failed to claim fees. Please try again.')
+      toast.error(apiUtils.formatError(error))
     } finally {
       setClaimingFees(null)
     }
@@ -154,26 +179,27 @@ export default function CreatorFeesPage() {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          creatorAddress: publicKey.toString()
+          creatorAddress: publicKey.toString(),
           // No tokenAddress means claim all
+          ...(await signClaim())
         })
       })
       
-      if (!response.ok) {
-        throw new Error('Failed to claim all fees')
-      }
-      
       const result = await response.json()
       
-      if (result.success) {
-        toast.success('All fees claimed successfully!')
-        fetchCreatorFees() // Refresh the data
+      if (!response.ok || !result.success) {
+        throw new Error(apiUtils.formatError(result))
+      }
+      
+      if (result.data.status !== 'CONFIRMED') {
+        toast.success('Claim sent, waiting for confirmation')
       } else {
-        throw new Error(result.error || 'Failed to claim all fees')
+        toast.success('All fees claimed successfully!')
       }
+      fetchCreatorFees() // Refresh the data
     } catch (error) {
       console.error('Claim all fees error:', error)
-      toast.error('Failed to claim some fees. Please try again.')
+      toast.error(apiUtils.formatError(error))
     } finally {
       setClaimingFees(null)
     }
@@ -0,0 +1,245 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import { AlertTriangle, Award, Clock, Coins, TrendingDown, TrendingUp, User } from 'lucide-react'
+import { apiUtils, tokenApi } from '@/lib/api'
+
+interface CreatorToken {
+  id: string
+  name: string
+  symbol: string
+  imageUrl: string | null
+  imageThumbUrl: string | null
+  createdAt: string
+  isGraduated: boolean
+  rugScore: number
+  marketCap: number
+  peakMarketCap: number
+  drawdown: number | null
+  collapsed: boolean
+  creatorSoldShare: number | null
+  firstSellAfterMs: number | null
+  quickDump: boolean
+  feesEarned: number
+  feesClaimed: number
+}
+
+interface CreatorProfile {
+  creatorAddress: string
+  reputation: {
+    score: number | null
+    level: string
+    tokensLaunched: number
+  }
+  summary: {
+    tokensLaunched: number
+    graduated: number
+    graduationRate: number
+    quickDumps: number
+    collapsed: number
+    medianFirstSellAfterMs: number | null
+    averageSoldShare: number | null
+    feesEarned: number
+    feesClaimed: number
+  }
+  tokens: CreatorToken[]
+}
+
+const REPUTATION_COLORS: Record<string, string> = {
+  GOOD: 'text-emerald-400 bg-emerald-400/10 border-emerald-400/30',
+  FAIR: 'text-yellow-400 bg-yellow-400/10 border-yellow-400/30',
+  POOR: 'text-orange-400 bg-orange-400/10 border-orange-400/30',
+  BAD: 'text-red-400 bg-red-400/10 border-red-400/30',
+  NEW: 'text-white/70 bg-white/5 border-white/10'
+}
+
+const formatMarketCap = (marketCap: number) => {
+  if (marketCap >= 1000000) return `${(marketCap / 1000000).toFixed(2)}M SOL`
+  if (marketCap >= 1000) return `${(marketCap / 1000).toFixed(1)}K SOL`
+  return `${marketCap.toFixed(2)} SOL`
+}
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return 'Never'
+  const minutes = Math.floor(ms / (1000 * 60))
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+  if (days > 0) return `${days}d ${hours % 24}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${Math.max(1, minutes)}m`
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`
+
+export default function CreatorPage() {
+  const { address } = useParams()
+  const [profile, setProfile] = useState<CreatorProfile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!address) return
+
+    const fetchProfile = async () => {
+      setLoading(true)
+      try {
+        const response = await tokenApi.getCreatorProfile(address as string)
+        setProfile(response.data.data)
+        setError(null)
+      } catch (fetchError) {
+        setProfile(null)
+        setError(apiUtils.formatError(fetchError))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProfile()
+  }, [address])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-[#C0283D] border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-4">
+        <div className="text-center max-w-md">
+          <User className="text-white/30 mx-auto mb-4" size={40} />
+          <h2 className="text-2xl font-bold text-white mb-2">Creator not found</h2>
+          <p className="text-gray-400">{error || 'No tokens launched by this address'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { reputation, summary, tokens } = profile
+  const reputationColors = REPUTATION_COLORS[reputation.level] || REPUTATION_COLORS.NEW
+
+  const stats = [
+    { label: 'Tokens Launched', value: summary.tokensLaunched.toString(), icon: Coins },
+    { label: 'Graduation Rate', value: `${summary.graduationRate.toFixed(0)}%`, icon: TrendingUp },
+    { label: 'Sold Within 24h', value: `${summary.quickDumps} of ${summary.tokensLaunched}`, icon: AlertTriangle },
+    { label: 'Collapsed From Peak', value: `${summary.collapsed} of ${summary.tokensLaunched}`, icon: TrendingDown },
+    { label: 'Typical First Sell', value: formatDuration(summary.medianFirstSellAfterMs), icon: Clock },
+    { label: 'Fees Claimed', value: `${summary.feesClaimed.toFixed(4)} SOL`, icon: Award }
+  ]
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="relative overflow-hidden border-b border-gray-900">
+        <div className="absolute inset-0 bg-gradient-to-br from-[#C0283D]/5 to-transparent" />
+        <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-6"
+          >
+            <div>
+              <div className="inline-flex items-center gap-2 bg-[#C0283D]/10 border border-[#C0283D]/30 rounded-full px-4 py-1.5 mb-4">
+                <User size={14} className="text-[#C0283D]" />
+                <span className="text-xs font-medium text-[#C0283D] uppercase tracking-wider">Creator Profile</span>
+              </div>
+              <h1 className="text-3xl font-bold text-white font-mono break-all" title={profile.creatorAddress}>
+                {shortAddress(profile.creatorAddress)}
+              </h1>
+              <p className="text-gray-400 mt-2">
+                {summary.tokensLaunched} token{summary.tokensLaunched === 1 ? '' : 's'} launched
+              </p>
+            </div>
+
+            <div className={`px-6 py-4 rounded-2xl border text-center ${reputationColors}`}>
+              <div className="text-xs uppercase tracking-wider opacity-70">Reputation</div>
+              <div className="text-4xl font-bold">{reputation.score ?? '-'}</div>
+              <div className="text-sm font-semibold">{reputation.level}</div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-10">
+          {stats.map(({ label, value, icon: Icon }) => (
+            <div key={label} className="bg-white/[0.02] border border-[#C0283D]/40 rounded-xl p-4">
+              <Icon size={16} className="text-white/40 mb-2" />
+              <div className="text-lg font-semibold text-white">{value}</div>
+              <div className="text-xs text-white/40">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white/[0.02] border border-[#C0283D]/40 rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-white/40 border-b border-white/5">
+                <th className="px-4 py-3 font-medium">Token</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium text-right">Peak Market Cap</th>
+                <th className="px-4 py-3 font-medium text-right">Current Market Cap</th>
+                <th className="px-4 py-3 font-medium text-right">Creator Sold</th>
+                <th className="px-4 py-3 font-medium text-right">First Sell</th>
+                <th className="px-4 py-3 font-medium text-right">Fees Claimed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.map((token) => (
+                <tr key={token.id} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                  <td className="px-4 py-3">
+                    <Link href={`/token/${token.id}`} className="flex items-center gap-3 hover:text-white">
+                      <div className="relative w-8 h-8 rounded-lg overflow-hidden bg-white/5 flex-shrink-0">
+                        {token.imageUrl ? (
+                          <Image src={token.imageThumbUrl || token.imageUrl} alt={token.name} fill className="object-cover" />
+                        ) : (
+                          <span className="w-full h-full flex items-center justify-center text-xs font-bold text-white">
+                            {token.symbol.slice(0, 2).toUpperCase()}
+                          </span>
+                        )}
+                      </div>
+                      <div>
+                        <div className="font-medium text-white">{token.name}</div>
+                        <div className="text-xs text-white/40">{token.symbol} • {new Date(token.createdAt).toLocaleDateString()}</div>
+                      </div>
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">
+                    {token.isGraduated ? (
+                      <span className="text-emerald-400">Graduated</span>
+                    ) : token.collapsed ? (
+                      <span className="text-red-400">Collapsed</span>
+                    ) : (
+                      <span className="text-yellow-400">Active</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right text-white/80">{formatMarketCap(token.peakMarketCap)}</td>
+                  <td className="px-4 py-3 text-right text-white/80">
+                    {formatMarketCap(token.marketCap)}
+                    {token.drawdown !== null && token.drawdown > 0 && (
+                      <span className="block text-xs text-red-400">-{token.drawdown.toFixed(0)}% from peak</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-3 text-right ${token.quickDump ? 'text-red-400' : 'text-white/80'}`}>
+                    {token.creatorSoldShare !== null ? `${token.creatorSoldShare.toFixed(0)}%` : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-white/80">
+                    {token.firstSellAfterMs !== null ? `${formatDuration(token.firstSellAfterMs)} after launch` : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-white/80">
+                    {token.feesClaimed.toFixed(4)} / {token.feesEarned.toFixed(4)} SOL
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
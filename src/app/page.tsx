@@ -34,6 +34,7 @@ interface Token {
   description?: string
   imageUrl?: string
   bannerUrl?: string
+  imageThumbUrl?: string | null
   price: number
   marketCap: number
   rugScore: number
@@ -106,7 +107,7 @@ export default function HomePage() {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}))
-      throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`)
+      throw new Error(errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`)
     }
 
     const data = await response.json()
@@ -261,7 +262,7 @@ export default function HomePage() {
           <div className="relative">
             <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[#C0283D]/20 to-[#C0283D]/10 flex items-center justify-center border border-[#C0283D]/20">
               {token.imageUrl ? (
-                <img src={token.imageUrl} alt={token.name} className="w-8 h-8 rounded-lg" />
+                <img src={token.imageThumbUrl || token.imageUrl} alt={token.name} className="w-8 h-8 rounded-lg" />
               ) : (
                 <span className="text-[#C0283D] font-bold text-lg">{token.symbol.charAt(0)}</span>
               )}
@@ -3,10 +3,11 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams } from 'next/navigation'
 import { motion } from 'framer-motion'
 import Image from 'next/image'
+import Link from 'next/link'
 import { TradingInterface } from '@/components/TradingInterface'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts'
-import { Globe, Twitter, MessageCircle, Shield, TrendingUp, Users, Activity, RefreshCw, DollarSign, BarChart3, PieChart, Zap } from 'lucide-react'
-import { tokenApi } from '@/lib/api'
+import { Globe, Twitter, MessageCircle, Shield, ShieldCheck, AlertTriangle, TrendingUp, Users, Activity, RefreshCw, DollarSign, BarChart3, PieChart, Zap, User } from 'lucide-react'
+import { apiUtils, tokenApi } from '@/lib/api'
 import { RugDetector } from '@/lib/solana'
 
 // Define interfaces (same as before)
@@ -47,9 +48,17 @@ interface TokenData {
   description?: string;
   imageUrl?: string;
   bannerUrl?: string;
+  imageCardUrl?: string | null;
+  bannerCropUrl?: string | null;
   website?: string;
   twitter?: string;
   telegram?: string;
+  creatorAddress?: string;
+  creatorReputation?: {
+    score: number | null;
+    level: string;
+    tokensLaunched: number;
+  } | null;
   rugScore: number;
   isGraduated: boolean;
   transactions?: TransactionData[];
@@ -60,6 +69,17 @@ interface TokenData {
   formattedMarketCap?: string;
   volume24h?: number;
   priceChange24h?: number;
+  authorities?: {
+    mintAuthority: string | null;
+    freezeAuthority: string | null;
+    revoked: boolean;
+    checkedAt: string;
+  } | null;
+  riskAlert?: {
+    from: string;
+    to: string;
+    at: string;
+  } | null;
 }
 
 export default function TokenPage() {
@@ -182,8 +202,13 @@ export default function TokenPage() {
       const response = await fetch(`/api/tokens/${id}`)
       const result = await response.json()
       
+      if (response.status === 404) {
+        setToken(null)
+        return
+      }
+
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to fetch token details')
+        throw new Error(apiUtils.formatError(result))
       }
 
       const tokenData = result.data || result
@@ -199,9 +224,13 @@ export default function TokenPage() {
         description: tokenData.description || 'No description available',
         imageUrl: tokenData.imageUrl,
         bannerUrl: tokenData.bannerUrl,
+        imageCardUrl: tokenData.imageCardUrl,
+        bannerCropUrl: tokenData.bannerCropUrl,
         website: tokenData.website,
         twitter: tokenData.twitter,
         telegram: tokenData.telegram,
+        creatorAddress: tokenData.creatorAddress,
+        creatorReputation: tokenData.riskAnalysis?.creator,
         transactions: tokenData.transactions || tokenData.recentTransactions,
         currentSupply: parseFloat(tokenData.currentSupply?.toString() || '0'),
         totalSupply: parseFloat(tokenData.totalSupply?.toString() || '0'),
@@ -209,7 +238,9 @@ export default function TokenPage() {
         formattedPrice: tokenData.formattedPrice,
         formattedMarketCap: tokenData.formattedMarketCap,
         volume24h: parseFloat(tokenData.volume24h?.toString() || '0'),
-        priceChange24h: parseFloat(tokenData.priceChange24h?.toString() || '0')
+        priceChange24h: parseFloat(tokenData.priceChange24h?.toString() || '0'),
+        authorities: tokenData.authorities,
+        riskAlert: tokenData.riskAnalysis?.alert
       }
       
       setToken(validatedToken)
@@ -538,7 +569,7 @@ export default function TokenPage() {
           {token.bannerUrl && (
             <div className="absolute inset-0 opacity-20">
               <Image
-                src={token.bannerUrl}
+                src={token.bannerCropUrl || token.bannerUrl}
                 alt="Token banner"
                 width={1200}
                 height={300}
@@ -554,7 +585,7 @@ export default function TokenPage() {
                 <div className="relative">
                   <div className="w-24 h-24 rounded-2xl bg-gradient-to-br from-gray-800 to-gray-900 flex items-center justify-center overflow-hidden border border-[#C0283D]/40 shadow-2xl">
                     {token.imageUrl ? (
-                      <Image src={token.imageUrl} alt={token.name} width={96} height={96} className="rounded-2xl" />
+                      <Image src={token.imageCardUrl || token.imageUrl} alt={token.name} width={96} height={96} className="rounded-2xl" />
                     ) : (
                       <span className="text-2xl font-bold text-white">{getSymbolDisplay(token.symbol)}</span>
                     )}
@@ -587,6 +618,15 @@ export default function TokenPage() {
                       <Shield size={14} />
                       <span>{riskLevel} RISK</span>
                     </div>
+                    {token.authorities?.revoked && (
+                      <div
+                        className="flex items-center space-x-2 text-emerald-400 px-3 py-2 bg-emerald-400/10 rounded-xl border border-emerald-400/30 text-sm font-medium"
+                        title={`Verified on-chain ${new Date(token.authorities.checkedAt).toLocaleString()}: no one can mint more supply or freeze holders`}
+                      >
+                        <ShieldCheck size={14} />
+                        <span>Authorities Revoked</span>
+                      </div>
+                    )}
                     {token.isGraduated && (
                       <div className="flex items-center space-x-2 text-emerald-400 px-3 py-2 bg-emerald-400/10 rounded-xl border border-emerald-400/30 text-sm font-medium">
                         <TrendingUp size={14} />
@@ -594,6 +634,24 @@ export default function TokenPage() {
                       </div>
                     )}
                   </div>
+
+                  {token.creatorAddress && (
+                    <Link
+                      href={`/creator/${token.creatorAddress}`}
+                      className="inline-flex items-center space-x-2 text-sm text-white/60 hover:text-white transition-colors"
+                      title="View every token this creator launched"
+                    >
+                      <User size={14} />
+                      <span>
+                        Created by <span className="font-mono">{token.creatorAddress.slice(0, 4)}...{token.creatorAddress.slice(-4)}</span>
+                      </span>
+                      {token.creatorReputation && token.creatorReputation.score !== null && (
+                        <span className="text-white/40">
+                          • Reputation {token.creatorReputation.score} ({token.creatorReputation.tokensLaunched} other launch{token.creatorReputation.tokensLaunched === 1 ? '' : 'es'})
+                        </span>
+                      )}
+                    </Link>
+                  )}
                 </div>
               </div>
 
@@ -614,6 +672,16 @@ export default function TokenPage() {
               </div>
             </div>
 
+            {token.riskAlert && (
+              <div className="mt-6 flex items-start space-x-3 p-4 bg-orange-500/10 rounded-xl border border-orange-500/30 text-orange-400">
+                <AlertTriangle size={18} className="mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-semibold">Risk increased from {token.riskAlert.from.replace('_', ' ')} to {token.riskAlert.to.replace('_', ' ')}</p>
+                  <p className="text-orange-400/70">Rescored {new Date(token.riskAlert.at).toLocaleString()} from recent trading activity</p>
+                </div>
+              </div>
+            )}
+
             {token.description && (
               <div className="mt-6 p-6 bg-black/30 backdrop-blur-xl rounded-xl border border-[#C0283D]/40">
                 <p className="text-white/90 leading-relaxed">{token.description}</p>
@@ -1,12 +1,14 @@
 'use client'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useWallet, useConnection } from '@solana/wallet-adapter-react'
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Shield, Menu, X, Wallet } from 'lucide-react'
+import { Shield, Menu, X, Wallet, LogIn } from 'lucide-react'
 import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import toast from 'react-hot-toast'
+import { authApi } from '@/lib/api'
 
 export function Navbar() {
   const [mounted, setMounted] = useState(false)
@@ -14,8 +16,58 @@ export function Navbar() {
   const [balance, setBalance] = useState(0)
   const [scrolled, setScrolled] = useState(false)
   const pathname = usePathname()
-  const { publicKey, connected } = useWallet()
+  const { publicKey, connected, signMessage } = useWallet()
   const { connection } = useConnection()
+  const [sessionAddress, setSessionAddress] = useState<string | null>(null)
+  const [signingIn, setSigningIn] = useState(false)
+  const promptedFor = useRef<string | null>(null)
+  const signedIn = !!publicKey && sessionAddress === publicKey.toString()
+
+  // Sign-In-With-Solana: prove wallet ownership once to get a session cookie
+  const signIn = async () => {
+    if (!publicKey || !signMessage) {
+      toast.error('Your wallet does not support message signing')
+      return
+    }
+
+    setSigningIn(true)
+    try {
+      const address = publicKey.toString()
+      const challenge = await authApi.getNonce(address)
+      const signature = await signMessage(new TextEncoder().encode(challenge.data.data.message))
+      await authApi.verify(address, challenge.data.data.nonce, btoa(String.fromCharCode(...signature)))
+      setSessionAddress(address)
+    } catch (error) {
+      console.error('Sign-in failed:', error)
+      toast.error('Sign-in failed. Trading and claiming need a signed-in wallet.')
+    } finally {
+      setSigningIn(false)
+    }
+  }
+
+  // After the wallet connects, reuse a matching session or ask to sign in once
+  useEffect(() => {
+    if (!connected || !publicKey) {
+      promptedFor.current = null
+      if (sessionAddress) {
+        authApi.signOut().catch((error) => console.error('Sign-out failed:', error))
+        setSessionAddress(null)
+      }
+      return
+    }
+
+    const address = publicKey.toString()
+    authApi.getSession()
+      .then((response) => {
+        if (response.data.data.address === address) {
+          setSessionAddress(address)
+        } else if (promptedFor.current !== address) {
+          promptedFor.current = address
+          signIn()
+        }
+      })
+      .catch((error) => console.error('Error checking session:', error))
+  }, [connected, publicKey])
 
   useEffect(() => {
     setMounted(true)
@@ -152,6 +204,17 @@ export function Navbar() {
                 </motion.div>
               )}
               
+              {connected && !signedIn && (
+                <button
+                  onClick={signIn}
+                  disabled={signingIn}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-white border border-[#C0283D]/60 rounded-lg hover:bg-[#C0283D]/20 transition-colors duration-200 disabled:opacity-50"
+                >
+                  <LogIn size={16} className="text-[#C0283D]" />
+                  <span>{signingIn ? 'Signing in...' : 'Sign in'}</span>
+                </button>
+              )}
+              
               {mounted ? (
                 <WalletMultiButton className="!bg-gradient-to-r !from-[#C0283D] !to-black hover:!from-black hover:!to-[#C0283D] !border-none !rounded-lg !font-medium !text-white !transition-all !duration-200 hover:!scale-[1.02] !text-sm !px-4 !py-2.5" />
               ) : (
@@ -175,6 +238,17 @@ export function Navbar() {
                 </motion.div>
               )}
               
+              {connected && !signedIn && (
+                <button
+                  onClick={signIn}
+                  disabled={signingIn}
+                  className="p-2 text-[#C0283D] border border-[#C0283D]/60 rounded-md hover:bg-[#C0283D]/20 transition-colors duration-200 disabled:opacity-50"
+                  aria-label="Sign in"
+                >
+                  <LogIn size={16} />
+                </button>
+              )}
+              
               {mounted && (
                 <WalletMultiButton className="!bg-gradient-to-r !from-[#C0283D] !to-black !border-none !rounded-md !text-xs !px-2.5 !py-2 !font-medium !text-white !transition-all !duration-200" />
               )}
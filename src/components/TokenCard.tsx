@@ -2,6 +2,7 @@
 import { useState } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 
 interface TokenCardProps {
@@ -12,11 +13,14 @@ interface TokenCardProps {
     description?: string
     imageUrl?: string
     bannerUrl?: string
+    imageThumbUrl?: string | null
+    imageCardUrl?: string | null
     price: number
     marketCap: number
     rugScore: number
     isGraduated: boolean
     createdAt: string
+    creatorAddress?: string
     website?: string
     twitter?: string
     telegram?: string
@@ -29,6 +33,7 @@ interface TokenCardProps {
 export function TokenCard({ token, variant = 'default', onAddToWatchlist, isInWatchlist }: TokenCardProps) {
   const [imageError, setImageError] = useState(false)
   const [imageLoading, setImageLoading] = useState(true)
+  const router = useRouter()
   
   const getSymbolDisplay = (symbol?: string) => {
     if (!symbol) return '??'
@@ -101,6 +106,8 @@ export function TokenCard({ token, variant = 'default', onAddToWatchlist, isInWa
   }
 
   const shouldShowImage = token.imageUrl && !imageError && !isUiAvatarsUrl(token.imageUrl)
+  // Resized variants keep the grid from loading full-size uploads; older tokens only have the original
+  const avatarUrl = (variant === 'hot' ? token.imageThumbUrl : token.imageCardUrl) || token.imageUrl
   const safeTokenName = token.name || 'Unknown Token'
   const safeTokenSymbol = getSafeSymbol(token.symbol)
   const progress = getProgressPercentage()
@@ -123,7 +130,7 @@ export function TokenCard({ token, variant = 'default', onAddToWatchlist, isInWa
                       <div className="absolute inset-0 bg-white/5 animate-pulse" />
                     )}
                     <Image
-                      src={token.imageUrl!}
+                      src={avatarUrl!}
                       alt={safeTokenName}
                       fill
                       className={`object-cover transition-opacity ${imageLoading ? 'opacity-0' : 'opacity-100'}`}
@@ -199,7 +206,7 @@ export function TokenCard({ token, variant = 'default', onAddToWatchlist, isInWa
                       <div className="absolute inset-0 bg-white/5 animate-pulse" />
                     )}
                     <Image
-                      src={token.imageUrl!}
+                      src={avatarUrl!}
                       alt={safeTokenName}
                       fill
                       className={`object-cover transition-opacity ${imageLoading ? 'opacity-0' : 'opacity-100'}`}
@@ -227,6 +234,20 @@ export function TokenCard({ token, variant = 'default', onAddToWatchlist, isInWa
                 <p className="text-xs text-white/40">
                   {safeTokenSymbol} • {formatTimeAgo(token.createdAt)}
                 </p>
+                {/* The card is already a link, so the creator profile is opened from a button */}
+                {token.creatorAddress && (
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      router.push(`/creator/${token.creatorAddress}`)
+                    }}
+                    className="text-xs text-white/40 hover:text-white transition-colors"
+                    title="View every token this creator launched"
+                  >
+                    by <span className="font-mono">{token.creatorAddress.slice(0, 4)}...{token.creatorAddress.slice(-4)}</span>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -1,9 +1,12 @@
 'use client'
 import { useState, useEffect } from 'react'
 import { useWallet } from '@solana/wallet-adapter-react'
+import { Transaction } from '@solana/web3.js'
 import { motion } from 'framer-motion'
 import { ArrowUpDown, RefreshCw, TrendingUp, TrendingDown, AlertTriangle, Zap } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { apiUtils } from '@/lib/api'
+import { ErrorCode } from '@/lib/errors'
 
 interface TradingInterfaceProps {
   token: {
@@ -19,10 +22,16 @@ interface TradingInterfaceProps {
   onTransactionComplete?: (transaction: any) => void
 }
 
+// A sent trade that has not landed yet is looked up this many times before giving up
+const CONFIRM_ATTEMPTS = 10
+const CONFIRM_RETRY_MS = 3000
+
 interface TradingFees {
   buyFee: number
   sellFee: number
-  platformFee: number
+  platformShare: number
+  creatorShare: number
+  referrerShare: number
 }
 
 interface TokenBalance {
@@ -31,16 +40,24 @@ interface TokenBalance {
 }
 
 interface QuoteData {
+  exactOut: boolean
   inputAmount: number
   outputAmount: number
   priceImpact: number
   fees: number
   minReceived: number
+  maxInput: number
+  currentPrice: number
+  priceAfter: number
+  quoteId: string
+  expiresAt: string
 }
 
 export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }: TradingInterfaceProps) {
-  const { connected, publicKey } = useWallet()
+  const { connected, publicKey, signTransaction } = useWallet()
   const [isBuying, setIsBuying] = useState(true)
+  // In exact-output mode the amount is what the user receives rather than what they pay
+  const [exactOut, setExactOut] = useState(false)
   const [amount, setAmount] = useState('')
   const [slippage, setSlippage] = useState(1)
   const [customSlippage, setCustomSlippage] = useState('')
@@ -53,6 +70,12 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
   const [refreshingPrice, setRefreshingPrice] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
 
+  const inputUnit = isBuying ? 'SOL' : token.symbol
+  const outputUnit = isBuying ? token.symbol : 'SOL'
+  const amountUnit = exactOut ? outputUnit : inputUnit
+  // What leaves the wallet: the typed amount, or the quoted input for exact-output trades
+  const payAmount = exactOut ? (quote?.inputAmount ?? 0) : parseFloat(amount || '0')
+
   // Fetch user balances when wallet connects
   useEffect(() => {
     if (connected && publicKey) {
@@ -71,7 +94,7 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
     } else {
       setQuote(null)
     }
-  }, [amount, isBuying, slippage, token.id])
+  }, [amount, isBuying, exactOut, slippage, token.id])
 
   const fetchUserBalances = async () => {
     if (!publicKey) return
@@ -101,15 +124,17 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
       const response = await fetch(`/api/tokens/${token.id}/fees`)
       if (response.ok) {
         const feesData = await response.json()
-        setFees(feesData)
+        setFees(feesData.data)
       }
     } catch (error) {
       console.error('Failed to fetch trading fees:', error)
-      // Set default fees if API fails
+      // Fall back to the platform's built-in default schedule
       setFees({
         buyFee: 1,
-        sellFee: 1,
-        platformFee: 0.5
+        sellFee: 5,
+        platformShare: 40,
+        creatorShare: 50,
+        referrerShare: 10
       })
     }
   }
@@ -123,16 +148,16 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          inputAmount: parseFloat(amount),
+          ...(exactOut
+            ? { outputAmount: parseFloat(amount), exactOut: true }
+            : { inputAmount: parseFloat(amount) }),
           isBuying,
           slippage: customSlippage ? parseFloat(customSlippage) : slippage
         })
       })
 
-      if (response.ok) {
-        const quoteData = await response.json()
-        setQuote(quoteData)
-      }
+      const quoteData = await response.json()
+      setQuote(response.ok && quoteData.success ? quoteData.data : null)
     } catch (error) {
       console.error('Failed to fetch quote:', error)
     } finally {
@@ -158,7 +183,28 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
       const maxSol = solBalance * 0.95 // Leave 5% for transaction fees
       setAmount(maxSol.toString())
     } else if (tokenBalance) {
-      setAmount(tokenBalance.balance)
+      // Tokens are sold in whole units
+      setAmount(Math.floor(parseFloat(tokenBalance.balance)).toString())
+    }
+  }
+
+  // Settle a trade the server sent but could not finish, waiting while it lands
+  const confirmSentTrade = async (intentId: string, signature: string) => {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(`/api/tokens/${token.id}/trades/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intentId, signature })
+      })
+      const data = await response.json()
+
+      const code = apiUtils.getErrorCode(data)
+      const stillLanding = code === ErrorCode.TRANSACTION_NOT_FOUND || response.status >= 500
+      if (!stillLanding || attempt >= CONFIRM_ATTEMPTS) {
+        // Already recorded means the trade went through
+        return { ok: response.ok || code === ErrorCode.DUPLICATE_SIGNATURE, data }
+      }
+      await new Promise(resolve => setTimeout(resolve, CONFIRM_RETRY_MS))
     }
   }
 
@@ -173,12 +219,12 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
       return
     }
 
-    if (isBuying && parseFloat(amount) > solBalance) {
+    if (isBuying && payAmount > solBalance) {
       toast.error('Insufficient SOL balance')
       return
     }
 
-    if (!isBuying && tokenBalance && parseFloat(amount) > parseFloat(tokenBalance.balance)) {
+    if (!isBuying && tokenBalance && payAmount > parseFloat(tokenBalance.balance)) {
       toast.error(`Insufficient ${token.symbol} balance`)
       return
     }
@@ -188,22 +234,80 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
       return
     }
 
+    if (!signTransaction) {
+      toast.error('Your wallet does not support transaction signing')
+      return
+    }
+
     setLoading(true)
     try {
+      const tradeAmount = parseFloat(amount)
+      const tradeSlippage = customSlippage ? parseFloat(customSlippage) : slippage
+
+      // 1. Ask the server to build the trade with the treasury's signature attached
       const response = await fetch(`/api/tokens/${token.id}/${isBuying ? 'buy' : 'sell'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          isBuying
+            ? {
+                ...(exactOut
+                  ? { tokenAmount: tradeAmount, exactOut: true, maxSolAmount: quote.maxInput }
+                  : { solAmount: tradeAmount }),
+                slippage: tradeSlippage,
+                buyerAddress: publicKey.toString(),
+                quoteId: quote.quoteId
+              }
+            : {
+                ...(exactOut
+                  ? { solAmount: tradeAmount, exactOut: true, maxTokenAmount: quote.maxInput }
+                  : { tokenAmount: tradeAmount }),
+                slippage: tradeSlippage,
+                sellerAddress: publicKey.toString(),
+                quoteId: quote.quoteId
+              }
+        )
+      })
+
+      const prepared = await response.json()
+
+      if (!response.ok || !prepared.success) {
+        // The quote we showed can no longer be honoured - show a fresh one
+        const code = apiUtils.getErrorCode(prepared)
+        if (code === ErrorCode.QUOTE_EXPIRED || code === ErrorCode.PRICE_MOVED) {
+          await fetchQuote()
+        }
+        throw new Error(apiUtils.formatError(prepared))
+      }
+
+      // 2. Have the connected wallet add the user's signature
+      const unsignedTransaction = Transaction.from(
+        Uint8Array.from(atob(prepared.data.transaction), (c) => c.charCodeAt(0))
+      )
+      const signedTransaction = await signTransaction(unsignedTransaction)
+
+      // 3. Submit it; the trade is only recorded once it confirms on chain
+      const submitResponse = await fetch(`/api/tokens/${token.id}/trades/submit`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          amount: parseFloat(amount),
-          slippage: customSlippage ? parseFloat(customSlippage) : slippage,
-          userAddress: publicKey.toString(),
-          quote: quote
+          intentId: prepared.data.intentId,
+          transaction: signedTransaction.serialize().toString('base64')
         })
       })
 
-      const data = await response.json()
+      let data = await submitResponse.json()
+      let ok = submitResponse.ok && data.success
 
-      if (response.ok) {
+      // Sent but not settled yet - finish it through /confirm
+      if (submitResponse.status === 202) {
+        toast('Transaction sent, waiting for confirmation...')
+        const confirmed = await confirmSentTrade(data.data.intentId, data.data.signature)
+        data = confirmed.data
+        ok = confirmed.ok
+      }
+
+      if (ok) {
         toast.success(`${isBuying ? 'Buy' : 'Sell'} order executed successfully!`)
         setAmount('')
         setQuote(null)
@@ -211,7 +315,11 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
         await fetchUserBalances()
         if (onTransactionComplete) onTransactionComplete(data)
       } else {
-        throw new Error(data.error || 'Transaction failed')
+        // The curve moved past our slippage before sending - show the fresh price
+        if (apiUtils.getErrorCode(data) === ErrorCode.PRICE_MOVED) {
+          await fetchQuote()
+        }
+        throw new Error(apiUtils.formatError(data))
       }
     } catch (error: any) {
       toast.error(error.message || 'Transaction failed. Please try again.')
@@ -223,8 +331,8 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
   const currentSlippage = customSlippage ? parseFloat(customSlippage) : slippage
   const isValidAmount = amount && parseFloat(amount) > 0
   const hasInsufficientBalance = isBuying 
-    ? parseFloat(amount || '0') > solBalance
-    : tokenBalance && parseFloat(amount || '0') > parseFloat(tokenBalance.balance)
+    ? payAmount > solBalance
+    : tokenBalance && payAmount > parseFloat(tokenBalance.balance)
 
   return (
     <motion.div
@@ -307,9 +415,26 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
         <div>
           <div className="flex justify-between items-center mb-4">
             <label className="text-lg font-medium text-white">
-              Amount ({isBuying ? 'SOL' : token.symbol})
+              {exactOut ? 'Receive' : 'Amount'} ({amountUnit})
             </label>
-            {connected && (
+            <div className="flex items-center gap-2 ml-auto mr-2 bg-black/30 rounded-xl p-1 border border-[#C0283D]/40">
+              {[false, true].map((mode) => (
+                <button
+                  key={String(mode)}
+                  onClick={() => {
+                    setExactOut(mode)
+                    setAmount('')
+                  }}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${
+                    exactOut === mode ? 'bg-[#C0283D] text-white' : 'text-white/60 hover:text-white'
+                  }`}
+                  title={mode ? `Fix the ${outputUnit} you receive` : `Fix the ${inputUnit} you pay`}
+                >
+                  {mode ? `Exact ${outputUnit}` : `Exact ${inputUnit}`}
+                </button>
+              ))}
+            </div>
+            {connected && !exactOut && (
               <button
                 onClick={handleMaxClick}
                 className="px-4 py-2 text-sm font-medium text-white bg-black/30 hover:bg-black/50 rounded-xl border border-[#C0283D]/40 hover:border-[#C0283D]/40 transition-all duration-200"
@@ -330,7 +455,7 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
             />
             <div className="absolute right-6 top-1/2 transform -translate-y-1/2">
               <span className="text-white/50 font-medium text-lg">
-                {isBuying ? 'SOL' : token.symbol}
+                {amountUnit}
               </span>
             </div>
           </div>
@@ -417,17 +542,40 @@ export function TradingInterface({ token, onPriceUpdate, onTransactionComplete }
                   </span>
                 </div>
                 <div className="flex justify-between items-center p-3 bg-black/30 rounded-xl border border-[#C0283D]/40">
-                  <span className="text-white/70 font-medium">Min. Received</span>
-                  <span className="font-medium text-white">
-                    {quote.minReceived.toFixed(isBuying ? 2 : 6)} {isBuying ? token.symbol : 'SOL'}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center pt-4 border-t border-[#C0283D]/40">
-                  <span className="text-white font-medium text-lg">You will receive</span>
-                  <span className="font-semibold text-xl text-emerald-400">
-                    {quote.outputAmount.toFixed(isBuying ? 2 : 6)} {isBuying ? token.symbol : 'SOL'}
-                  </span>
+                  <span className="text-white/70 font-medium">Price After Trade</span>
+                  <span className="font-mono font-medium text-white">{quote.priceAfter.toFixed(10)} SOL</span>
                 </div>
+                {quote.exactOut ? (
+                  <>
+                    <div className="flex justify-between items-center p-3 bg-black/30 rounded-xl border border-[#C0283D]/40">
+                      <span className="text-white/70 font-medium">Max. Spent</span>
+                      <span className="font-medium text-white">
+                        {quote.maxInput.toFixed(isBuying ? 6 : 2)} {inputUnit}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center pt-4 border-t border-[#C0283D]/40">
+                      <span className="text-white font-medium text-lg">You will pay</span>
+                      <span className="font-semibold text-xl text-emerald-400">
+                        {quote.inputAmount.toFixed(isBuying ? 6 : 2)} {inputUnit}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex justify-between items-center p-3 bg-black/30 rounded-xl border border-[#C0283D]/40">
+                      <span className="text-white/70 font-medium">Min. Received</span>
+                      <span className="font-medium text-white">
+                        {quote.minReceived.toFixed(isBuying ? 2 : 6)} {outputUnit}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center pt-4 border-t border-[#C0283D]/40">
+                      <span className="text-white font-medium text-lg">You will receive</span>
+                      <span className="font-semibold text-xl text-emerald-400">
+                        {quote.outputAmount.toFixed(isBuying ? 2 : 6)} {outputUnit}
+                      </span>
+                    </div>
+                  </>
+                )}
               </>
             ) : isValidAmount && quoteLoading ? (
               <div className="flex justify-center py-6">
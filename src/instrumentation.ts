@@ -0,0 +1,13 @@
+/**
+ * Runs once when a Next.js server process starts
+ */
+export async function register() {
+  // Background jobs need Node APIs and a database connection, so never run on the edge
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startRugScoreScheduler } = await import('@/lib/rugScore')
+    startRugScoreScheduler()
+
+    const { startVolumeAnalysisScheduler } = await import('@/lib/washTrading')
+    startVolumeAnalysisScheduler()
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { errorResponse } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+/**
+ * Guard for operator-only endpoints. Requests must carry the `x-admin-key`
+ * header matching ADMIN_API_KEY; returns an error response to send back,
+ * or null when the caller is allowed through.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const adminKey = process.env.ADMIN_API_KEY
+  if (!adminKey) {
+    return errorResponse(ErrorCode.SERVICE_UNAVAILABLE, 'Admin API is not configured', 503)
+  }
+
+  const provided = Buffer.from(request.headers.get('x-admin-key') || '')
+  const expected = Buffer.from(adminKey)
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return errorResponse(ErrorCode.ADMIN_REQUIRED, 'Admin authorization required', 401)
+  }
+
+  return null
+}
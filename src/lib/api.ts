@@ -1,4 +1,9 @@
 import axios from 'axios'
+import { createCurve, CurveReserves, CurveType } from '@/lib/curves'
+import type { FeeRates } from '@/lib/fees'
+import { ApiErrorBody, ERROR_MESSAGES, ErrorCode, FieldErrors } from '@/lib/errors'
+
+type CurveToken = CurveReserves & { curveType?: CurveType; curveParams?: any }
 
 const api = axios.create({
   baseURL: '/api',
@@ -36,7 +41,7 @@ export interface CreateTokenData {
 
 export interface TokenFilters {
   search?: string
-  sortBy?: 'newest' | 'oldest' | 'marketCap' | 'price' | 'name' | 'symbol'
+  sortBy?: 'newest' | 'oldest' | 'marketCap' | 'price' | 'name' | 'symbol' | 'organicVolume'
   category?: 'new' | 'graduating' | 'graduated' | 'watchlist' | 'all'
   limit?: number
 }
@@ -67,21 +72,42 @@ export const tokenApi = {
   getToken: (id: string) => 
     api.get(`/tokens/${id}`),
   
-  // Trading operations
-  buyToken: (tokenId: string, solAmount: number, slippage: number = 5, buyerAddress: string) => 
+  // Trading operations - buy/sell return an unsigned transaction for the wallet,
+  // which is then passed back through submitTrade once signed
+  // Passing the quoteId from getQuote executes exactly the quoted output or fails
+  getQuote: (tokenId: string, inputAmount: number, isBuying: boolean, slippage: number = 1) =>
+    api.post(`/tokens/${tokenId}/quote`, { inputAmount, isBuying, slippage }),
+
+  buyToken: (tokenId: string, solAmount: number, slippage: number = 5, buyerAddress: string, quoteId?: string) => 
     api.post(`/tokens/${tokenId}/buy`, { 
       solAmount, 
       slippage, 
-      buyerAddress 
+      buyerAddress,
+      quoteId
     }),
   
-  sellToken: (tokenId: string, tokenAmount: number, slippage: number = 5, sellerAddress: string) => 
+  sellToken: (tokenId: string, tokenAmount: number, slippage: number = 5, sellerAddress: string, quoteId?: string) => 
     api.post(`/tokens/${tokenId}/sell`, { 
       tokenAmount, 
       slippage, 
-      sellerAddress 
+      sellerAddress,
+      quoteId
     }),
 
+  // Effective fee schedule for a token (its override or the global default)
+  getFees: (tokenId: string) =>
+    api.get(`/tokens/${tokenId}/fees`),
+
+  submitTrade: (tokenId: string, intentId: string, transaction: string) =>
+    api.post(`/tokens/${tokenId}/trades/submit`, { intentId, transaction }),
+
+  confirmTrade: (tokenId: string, signature: string, intentId?: string) =>
+    api.post(`/tokens/${tokenId}/trades/confirm`, { signature, intentId }),
+
+  // Round trips, matched pairs and lockstep wallets in the last 24h of trades
+  getWashTrading: (tokenId: string) =>
+    api.get(`/tokens/${tokenId}/wash-trading`),
+
   // Transaction history
   getTransactions: (tokenId: string, params: PaginationParams = {}) =>
     api.get(`/tokens/${tokenId}/transactions`, { params }),
@@ -96,79 +122,111 @@ export const tokenApi = {
   getUserWatchlist: (userAddress: string, limit: number = 50) =>
     api.get(`/watchlist/${userAddress}`, { params: { limit } }),
 
+  // Every token a wallet launched and the reputation it earned
+  getCreatorProfile: (address: string) =>
+    api.get(`/creators/${address}`),
+
   // Creator fees
   getCreatorFees: (creatorAddress: string) => 
     api.get(`/creator-fees/${creatorAddress}`),
   
-  claimCreatorFees: (creatorAddress: string, tokenAddress?: string) => 
-    api.post('/creator-fees/claim', { creatorAddress, tokenAddress }),
+  // The proof is the creator wallet's signature of buildClaimMessage for this claim
+  claimCreatorFees: (
+    creatorAddress: string,
+    tokenAddress: string | undefined,
+    proof: { idempotencyKey: string; issuedAt: string; signature: string }
+  ) => 
+    api.post('/creator-fees/claim', { creatorAddress, tokenAddress, ...proof }),
 
   // Analytics and statistics
   getAnalytics: (period: '24h' | '7d' | '30d' = '24h') =>
     api.get('/analytics', { params: { period } }),
 
   // Price calculation helpers (client-side)
-  calculateBuyAmount: (solAmount: number, currentSupply: number) => {
-    // Implement bonding curve calculation on client side for preview
-    const INITIAL_VIRTUAL_SOL_RESERVES = 30
-    const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000
-    
-    const virtualSolReserves = INITIAL_VIRTUAL_SOL_RESERVES
-    const virtualTokenReserves = INITIAL_VIRTUAL_TOKEN_RESERVES - currentSupply
-    const k = virtualSolReserves * virtualTokenReserves
-    const newTokenReserves = k / (virtualSolReserves + solAmount)
-    
-    return Math.floor(virtualTokenReserves - newTokenReserves)
+  // Tokens carry curveType, curveParams and their reserves; rates come from getFees
+  calculateBuyAmount: (solAmount: number, token: CurveToken, rates: Pick<FeeRates, 'buyFee'>) => {
+    // The buy fee is taken from the SOL sent before it reaches the curve
+    const netSol = solAmount * (1 - rates.buyFee / 100)
+    return createCurve(token.curveType, token.curveParams).tokensForSol(token, netSol)
   },
 
-  calculateSellAmount: (tokenAmount: number, currentSupply: number) => {
+  calculateSellAmount: (tokenAmount: number, token: CurveToken, rates: Pick<FeeRates, 'sellFee'>) => {
     // Calculate SOL received for selling tokens
-    const INITIAL_VIRTUAL_SOL_RESERVES = 30
-    const INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000
-    
-    const virtualSolReserves = INITIAL_VIRTUAL_SOL_RESERVES
-    const virtualTokenReserves = INITIAL_VIRTUAL_TOKEN_RESERVES - currentSupply
-    const k = virtualSolReserves * virtualTokenReserves
-    const newSolReserves = k / (virtualTokenReserves + tokenAmount)
-    
-    const solOut = virtualSolReserves - newSolReserves
-    return Math.max(0, solOut * 0.95) // Apply 5% sell fee
+    const solOut = createCurve(token.curveType, token.curveParams).solForTokens(token, tokenAmount)
+
+    return Math.max(0, solOut * (1 - rates.sellFee / 100))
   }
 }
 
+// Sign-In-With-Solana: the wallet signs the challenge message from getNonce,
+// and verify sets an HTTP-only session cookie used by the mutating routes
+export const authApi = {
+  getNonce: (address: string) =>
+    api.post('/auth/nonce', { address }),
+
+  verify: (address: string, nonce: string, signature: string) =>
+    api.post('/auth/verify', { address, nonce, signature }),
+
+  getSession: () =>
+    api.get('/auth/session'),
+
+  signOut: () =>
+    api.delete('/auth/session')
+}
+
 // Utility functions for the API client
+// The error envelope from an axios error, a parsed fetch response body, or the envelope itself
+function getErrorBody(error: any): ApiErrorBody | null {
+  const candidate = error?.response?.data?.error ?? error?.error ?? error
+  return candidate && typeof candidate === 'object' && typeof candidate.code === 'string'
+    ? candidate
+    : null
+}
+
 export const apiUtils = {
   /**
    * Format API errors for display
    */
   formatError: (error: any): string => {
-    if (error.response?.data?.error) {
-      return error.response.data.error
+    const body = getErrorBody(error)
+    if (body) {
+      return body.message || ERROR_MESSAGES[body.code] || ERROR_MESSAGES.INTERNAL_ERROR
     }
-    if (error.response?.data?.message) {
-      return error.response.data.message
+    if (typeof error === 'string') {
+      return error
     }
-    if (error.message) {
+    if (error?.message) {
       return error.message
     }
-    return 'An unexpected error occurred'
+    return ERROR_MESSAGES.INTERNAL_ERROR
+  },
+
+  /**
+   * Error code of a failed API call, if the server sent one
+   */
+  getErrorCode: (error: any): ErrorCode | null => {
+    return getErrorBody(error)?.code ?? null
+  },
+
+  /**
+   * Messages for individual request fields, keyed by field name
+   */
+  getFieldErrors: (error: any): FieldErrors => {
+    return getErrorBody(error)?.fields ?? {}
   },
 
   /**
    * Check if error is a validation error
    */
   isValidationError: (error: any): boolean => {
-    return error.response?.status === 400 && error.response?.data?.details
+    return getErrorBody(error)?.code === ErrorCode.VALIDATION_FAILED
   },
 
   /**
    * Get validation error details
    */
   getValidationErrors: (error: any): string[] => {
-    if (error.response?.data?.details) {
-      return error.response.data.details
-    }
-    return []
+    return Object.entries(apiUtils.getFieldErrors(error)).map(([field, message]) => `${field}: ${message}`)
   },
 
   /**
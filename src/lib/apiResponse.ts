@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ErrorCode, FieldErrors } from '@/lib/errors'
+import { Infer, Schema, validate } from '@/lib/validation'
+
+/**
+ * An error a route reports to the caller as-is. `details` are extra
+ * top-level response fields the client can act on (e.g. a fresh requote).
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public code: ErrorCode,
+    public status: number,
+    public fields?: FieldErrors,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * A validation failure found after parsing, e.g. a rule spanning several fields
+ */
+export function fieldError(field: string, message: string) {
+  return new ApiError('Validation failed', ErrorCode.VALIDATION_FAILED, 400, { [field]: message })
+}
+
+/**
+ * The one error envelope every route returns
+ */
+export function errorResponse(
+  code: ErrorCode,
+  message: string,
+  status: number,
+  { fields, ...details }: { fields?: FieldErrors } & Record<string, unknown> = {}
+) {
+  return NextResponse.json(
+    { success: false, error: { code, message, ...(fields ? { fields } : {}) }, ...details },
+    { status }
+  )
+}
+
+/**
+ * Read a JSON object body, for routes that merge it with other input before validating
+ */
+export async function readJson(request: NextRequest): Promise<Record<string, unknown>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError('Invalid JSON in request body', ErrorCode.INVALID_JSON, 400)
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError('Request body must be a JSON object', ErrorCode.INVALID_JSON, 400)
+  }
+
+  return body as Record<string, unknown>
+}
+
+/**
+ * Parse and validate a JSON body, throwing an ApiError for the route's catch block
+ */
+export async function parseBody<S extends Schema>(request: NextRequest, schema: S): Promise<Infer<S>> {
+  return check(schema, await readJson(request))
+}
+
+/**
+ * Validate query parameters against a schema
+ */
+export function parseQuery<S extends Schema>(request: NextRequest, schema: S): Infer<S> {
+  const { searchParams } = new URL(request.url)
+  return check(schema, Object.fromEntries(searchParams.entries()))
+}
+
+/**
+ * Validate already-extracted input, such as route params or form fields
+ */
+export function check<S extends Schema>(schema: S, input: Record<string, unknown>): Infer<S> {
+  const result = validate(schema, input)
+  if (result.fields) {
+    throw new ApiError('Validation failed', ErrorCode.VALIDATION_FAILED, 400, result.fields)
+  }
+  return result.data
+}
+
+/**
+ * Turn anything thrown inside a route into the error envelope. ApiErrors are
+ * reported as-is; anything else is logged and hidden behind a 500.
+ */
+export function handleRouteError(error: unknown, message: string) {
+  if (error instanceof ApiError) {
+    return errorResponse(error.code, error.message, error.status, {
+      fields: error.fields,
+      ...error.details
+    })
+  }
+
+  console.error(`${message}:`, error)
+  return errorResponse(ErrorCode.INTERNAL_ERROR, message, 500)
+}
@@ -0,0 +1,295 @@
+import { PublicKey, SystemProgram, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { utils } from '@project-serum/anchor'
+import { prisma } from '@/lib/database'
+import { connection } from '@/lib/solana'
+import { getPayerKeypair } from '@/lib/treasury'
+import { toLamports } from '@/lib/trading'
+import { Ledger } from '@/lib/ledger'
+import { ApiError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+export interface ClaimAllocation {
+  creatorFeeId: string
+  tokenAddress: string
+  amount: number
+}
+
+export class ClaimError extends ApiError {
+  constructor(message: string, code: ErrorCode, status: number) {
+    super(message, code, status)
+    this.name = 'ClaimError'
+  }
+}
+
+// Unfinished claims older than this are assumed to belong to a process that died
+const STALE_CLAIM_MS = 60_000
+
+/**
+ * Reserve everything claimable for a creator (optionally one token) under an
+ * idempotency key. Reusing a key returns the claim it created; the fees are
+ * moved into `pendingFees` so no other claim can reserve them.
+ */
+export async function reserveClaim(idempotencyKey: string, creatorAddress: string, tokenAddress?: string | null): Promise<any> {
+  const existing = await prisma.feeClaim.findUnique({
+    where: { idempotencyKey }
+  })
+
+  if (existing) {
+    if (existing.creatorAddress !== creatorAddress || existing.tokenAddress !== (tokenAddress || null)) {
+      throw new ClaimError('Idempotency key was already used for a different claim', ErrorCode.IDEMPOTENCY_CONFLICT, 409)
+    }
+    return existing
+  }
+
+  try {
+    return await prisma.$transaction(async (tx: any) => {
+      // Lock the fee rows so concurrent claims cannot reserve the same fees
+      const rows: any[] = tokenAddress
+        ? await tx.$queryRaw`
+            SELECT "id", "tokenAddress", "totalFees", "claimedFees", "pendingFees"
+            FROM "creator_fees"
+            WHERE "creatorAddress" = ${creatorAddress} AND "tokenAddress" = ${tokenAddress}
+            FOR UPDATE`
+        : await tx.$queryRaw`
+            SELECT "id", "tokenAddress", "totalFees", "claimedFees", "pendingFees"
+            FROM "creator_fees"
+            WHERE "creatorAddress" = ${creatorAddress}
+            FOR UPDATE`
+
+      const allocations: ClaimAllocation[] = rows
+        .map((row) => ({
+          creatorFeeId: row.id,
+          tokenAddress: row.tokenAddress,
+          amount: Number(row.totalFees) - Number(row.claimedFees) - Number(row.pendingFees)
+        }))
+        .filter((allocation) => allocation.amount > 0)
+      const amount = allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+
+      if (toLamports(amount) === 0) {
+        throw new ClaimError('No fees available to claim', ErrorCode.NO_FEES, 400)
+      }
+
+      for (const allocation of allocations) {
+        await tx.creatorFee.update({
+          where: { id: allocation.creatorFeeId },
+          data: { pendingFees: { increment: allocation.amount } }
+        })
+      }
+
+      return tx.feeClaim.create({
+        data: {
+          idempotencyKey,
+          creatorAddress,
+          tokenAddress: tokenAddress || null,
+          amount,
+          allocations: allocations as any
+        }
+      })
+    })
+  } catch (error: any) {
+    // A concurrent request with the same key created the claim first
+    if (error?.code === 'P2002') {
+      return reserveClaim(idempotencyKey, creatorAddress, tokenAddress)
+    }
+    throw error
+  }
+}
+
+/**
+ * Drive a claim as far as it can go: sign the transfer, send it and wait
+ * for confirmation. Safe to call again on a claim in any state.
+ */
+export async function processClaim(claim: any): Promise<any> {
+  if (claim.status === 'PENDING') {
+    claim = await signClaim(claim)
+  }
+
+  if (claim.status === 'SENT') {
+    claim = await sendClaim(claim)
+  }
+
+  return claim
+}
+
+/**
+ * Resume or roll back a creator's claims left behind by a process that died
+ */
+export async function recoverStaleClaims(creatorAddress: string) {
+  const stale = await prisma.feeClaim.findMany({
+    where: {
+      creatorAddress,
+      status: { in: ['PENDING', 'SENT'] },
+      updatedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) }
+    }
+  })
+
+  for (const claim of stale) {
+    try {
+      // Nothing was signed for a pending claim, so releasing it is always safe
+      if (claim.status === 'PENDING') {
+        await rollbackClaim(claim, 'Claim was interrupted before sending')
+      } else {
+        await reconcileClaim(claim)
+      }
+    } catch (error) {
+      console.error(`Failed to recover claim ${claim.id}:`, error)
+    }
+  }
+}
+
+async function signClaim(claim: any) {
+  const treasury = getPayerKeypair()
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: treasury.publicKey,
+      toPubkey: new PublicKey(claim.creatorAddress),
+      lamports: toLamports(claim.amount)
+    })
+  )
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+  transaction.feePayer = treasury.publicKey
+  transaction.recentBlockhash = blockhash
+  transaction.sign(treasury)
+
+  // Persist the signed transfer before it is sent, so a restart resends this exact
+  // transaction instead of paying twice; losing this race means another request owns the claim
+  await prisma.feeClaim.updateMany({
+    where: { id: claim.id, status: 'PENDING' },
+    data: {
+      status: 'SENT',
+      signature: utils.bytes.bs58.encode(transaction.signature!),
+      transaction: transaction.serialize().toString('base64'),
+      blockhash,
+      lastValidBlockHeight
+    }
+  })
+
+  return prisma.feeClaim.findUnique({ where: { id: claim.id } })
+}
+
+async function sendClaim(claim: any) {
+  try {
+    await connection.sendRawTransaction(Buffer.from(claim.transaction, 'base64'), {
+      preflightCommitment: 'confirmed'
+    })
+  } catch (error) {
+    // Resending a transfer that already landed is rejected; the chain decides below
+    console.warn(`Claim ${claim.id} send failed:`, error)
+  }
+
+  try {
+    const confirmation = await connection.confirmTransaction(
+      {
+        signature: claim.signature,
+        blockhash: claim.blockhash,
+        lastValidBlockHeight: claim.lastValidBlockHeight
+      },
+      'confirmed'
+    )
+
+    if (confirmation.value.err) {
+      return rollbackClaim(claim, `Transfer failed: ${JSON.stringify(confirmation.value.err)}`)
+    }
+
+    return finalizeClaim(claim)
+  } catch (error) {
+    console.warn(`Claim ${claim.id} confirmation interrupted:`, error)
+    return reconcileClaim(claim)
+  }
+}
+
+/**
+ * Settle a sent claim from what the chain says about its signature. A claim
+ * is only rolled back once its blockhash has expired without the transfer landing.
+ */
+async function reconcileClaim(claim: any) {
+  const { value: status } = await connection.getSignatureStatus(claim.signature, {
+    searchTransactionHistory: true
+  })
+
+  if (status?.err) {
+    return rollbackClaim(claim, `Transfer failed: ${JSON.stringify(status.err)}`)
+  }
+
+  if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+    return finalizeClaim(claim)
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed')
+  if (!status && blockHeight > claim.lastValidBlockHeight) {
+    return rollbackClaim(claim, 'Transfer expired before confirming')
+  }
+
+  // Still in flight; a retry with the same idempotency key picks it up
+  return claim
+}
+
+async function finalizeClaim(claim: any) {
+  const confirmed = await connection.getTransaction(claim.signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0
+  })
+  const networkFee = (confirmed?.meta?.fee || 0) / LAMPORTS_PER_SOL
+  const allocations = claim.allocations as ClaimAllocation[]
+
+  return prisma.$transaction(async (tx: any) => {
+    const finalized = await tx.feeClaim.updateMany({
+      where: { id: claim.id, status: 'SENT' },
+      data: { status: 'CONFIRMED', confirmedAt: new Date(), error: null }
+    })
+
+    // Already finalized by a concurrent request
+    if (finalized.count === 0) {
+      return tx.feeClaim.findUnique({ where: { id: claim.id } })
+    }
+
+    for (const [index, allocation] of allocations.entries()) {
+      await tx.creatorFee.update({
+        where: { id: allocation.creatorFeeId },
+        data: {
+          claimedFees: { increment: allocation.amount },
+          pendingFees: { decrement: allocation.amount },
+          lastClaimedAt: new Date()
+        }
+      })
+
+      const token = await tx.token.findUnique({
+        where: { tokenAddress: allocation.tokenAddress },
+        select: { id: true }
+      })
+
+      await Ledger.recordClaim(tx, {
+        creatorAddress: claim.creatorAddress,
+        tokenId: token?.id,
+        amount: allocation.amount,
+        networkFee: index === 0 ? networkFee : 0,
+        signature: claim.signature
+      })
+    }
+
+    return tx.feeClaim.findUnique({ where: { id: claim.id } })
+  })
+}
+
+async function rollbackClaim(claim: any, reason: string) {
+  const allocations = claim.allocations as ClaimAllocation[]
+
+  return prisma.$transaction(async (tx: any) => {
+    const released = await tx.feeClaim.updateMany({
+      where: { id: claim.id, status: { in: ['PENDING', 'SENT'] } },
+      data: { status: 'FAILED', error: reason }
+    })
+
+    if (released.count > 0) {
+      for (const allocation of allocations) {
+        await tx.creatorFee.update({
+          where: { id: allocation.creatorFeeId },
+          data: { pendingFees: { decrement: allocation.amount } }
+        })
+      }
+    }
+
+    return tx.feeClaim.findUnique({ where: { id: claim.id } })
+  })
+}
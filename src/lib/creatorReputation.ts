@@ -0,0 +1,241 @@
+import { prisma } from '@/lib/database'
+import type { CreatorReputation } from '@/lib/solana'
+
+// A creator selling at least this share of what they bought this soon after launch is a quick dump
+const QUICK_DUMP_SHARE = 50
+const QUICK_DUMP_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// A token below this share of its peak market cap, without graduating, has collapsed
+const COLLAPSE_SHARE = 10
+
+// How much each part of a creator's record counts towards the 0-100 reputation score
+const REPUTATION_WEIGHTS = {
+  graduation: 25,
+  noQuickDumps: 35,
+  noCollapses: 25,
+  holding: 15
+}
+
+/**
+ * One token a creator launched and how the creator traded it
+ */
+export interface CreatorTokenRecord {
+  id: string
+  name: string
+  symbol: string
+  imageUrl: string | null
+  imageThumbUrl: string | null
+  tokenAddress: string
+  createdAt: Date
+  isGraduated: boolean
+  graduatedAt: Date | null
+  rugScore: number
+  marketCap: number
+  peakMarketCap: number
+  drawdown: number | null          // Percent below the peak market cap
+  collapsed: boolean
+  creatorBought: number
+  creatorSold: number
+  creatorSoldShare: number | null  // Of what the creator bought, sold since
+  firstSellAfterMs: number | null  // From launch to the creator's first sell
+  quickDump: boolean
+  feesEarned: number
+  feesClaimed: number
+}
+
+function share(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Every token the creator launched, newest first, with the creator's own
+ * trades and fees on each
+ */
+async function loadCreatorTokens(creatorAddress: string, excludeTokenId: string | undefined, db: any): Promise<CreatorTokenRecord[]> {
+  const tokens = await db.token.findMany({
+    where: {
+      creatorAddress,
+      ...(excludeTokenId ? { id: { not: excludeTokenId } } : {})
+    },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      name: true,
+      symbol: true,
+      imageUrl: true,
+      imageThumbUrl: true,
+      tokenAddress: true,
+      createdAt: true,
+      isGraduated: true,
+      graduatedAt: true,
+      rugScore: true,
+      marketCap: true,
+      peakMarketCap: true
+    }
+  })
+
+  if (tokens.length === 0) return []
+
+  const [trades, fees] = await Promise.all([
+    db.transaction.findMany({
+      where: { userAddress: creatorAddress, tokenId: { in: tokens.map((token: any) => token.id) } },
+      orderBy: { createdAt: 'asc' },
+      select: { tokenId: true, type: true, amount: true, createdAt: true }
+    }),
+    db.creatorFee.findMany({
+      where: { creatorAddress, tokenAddress: { in: tokens.map((token: any) => token.tokenAddress) } },
+      select: { tokenAddress: true, totalFees: true, claimedFees: true }
+    })
+  ])
+
+  const tradesByToken = new Map<string, any[]>()
+  for (const trade of trades) {
+    const list = tradesByToken.get(trade.tokenId) || []
+    list.push(trade)
+    tradesByToken.set(trade.tokenId, list)
+  }
+  const feesByToken = new Map<string, any>(fees.map((fee: any) => [fee.tokenAddress, fee]))
+
+  return tokens.map((token: any) => {
+    const launchedAt = token.createdAt.getTime()
+    let bought = 0
+    let sold = 0
+    let soldQuickly = 0
+    let firstSellAt: number | null = null
+
+    for (const trade of tradesByToken.get(token.id) || []) {
+      const amount = Number(trade.amount)
+      if (trade.type === 'BUY') {
+        bought += amount
+        continue
+      }
+      sold += amount
+      firstSellAt ??= trade.createdAt.getTime()
+      if (trade.createdAt.getTime() - launchedAt <= QUICK_DUMP_WINDOW_MS) soldQuickly += amount
+    }
+
+    const marketCap = Number(token.marketCap)
+    // Tokens from before peaks were recorded start from their current market cap
+    const peakMarketCap = Math.max(Number(token.peakMarketCap), marketCap)
+    const drawdown = peakMarketCap > 0 ? round(share(peakMarketCap - marketCap, peakMarketCap)) : null
+    const fee = feesByToken.get(token.tokenAddress)
+
+    return {
+      id: token.id,
+      name: token.name,
+      symbol: token.symbol,
+      imageUrl: token.imageUrl,
+      imageThumbUrl: token.imageThumbUrl,
+      tokenAddress: token.tokenAddress,
+      createdAt: token.createdAt,
+      isGraduated: token.isGraduated,
+      graduatedAt: token.graduatedAt,
+      rugScore: Number(token.rugScore),
+      marketCap,
+      peakMarketCap,
+      drawdown,
+      collapsed: !token.isGraduated && peakMarketCap > 0 && share(marketCap, peakMarketCap) < COLLAPSE_SHARE,
+      creatorBought: bought,
+      creatorSold: sold,
+      creatorSoldShare: bought > 0 ? round(share(Math.min(sold, bought), bought)) : null,
+      firstSellAfterMs: firstSellAt !== null ? firstSellAt - launchedAt : null,
+      quickDump: bought > 0 && share(soldQuickly, bought) >= QUICK_DUMP_SHARE,
+      feesEarned: Number(fee?.totalFees || 0),
+      feesClaimed: Number(fee?.claimedFees || 0)
+    }
+  })
+}
+
+function summarize(records: CreatorTokenRecord[]) {
+  const soldShares = records
+    .map((record) => record.creatorSoldShare)
+    .filter((value): value is number => value !== null)
+  const firstSells = records
+    .map((record) => record.firstSellAfterMs)
+    .filter((value): value is number => value !== null)
+  const graduated = records.filter((record) => record.isGraduated).length
+
+  return {
+    tokensLaunched: records.length,
+    graduated,
+    graduationRate: round(share(graduated, records.length)),
+    quickDumps: records.filter((record) => record.quickDump).length,
+    collapsed: records.filter((record) => record.collapsed).length,
+    medianFirstSellAfterMs: median(firstSells),
+    averageSoldShare: soldShares.length > 0
+      ? round(soldShares.reduce((sum, value) => sum + value, 0) / soldShares.length)
+      : null,
+    totalPeakMarketCap: records.reduce((sum, record) => sum + record.peakMarketCap, 0),
+    totalMarketCap: records.reduce((sum, record) => sum + record.marketCap, 0),
+    feesEarned: records.reduce((sum, record) => sum + record.feesEarned, 0),
+    feesClaimed: records.reduce((sum, record) => sum + record.feesClaimed, 0)
+  }
+}
+
+function reputationLevel(score: number | null): string {
+  if (score === null) return 'NEW'
+  if (score >= 80) return 'GOOD'
+  if (score >= 60) return 'FAIR'
+  if (score >= 40) return 'POOR'
+  return 'BAD'
+}
+
+/**
+ * Score a creator's record: graduating tokens helps; dumping soon after
+ * launch, tokens collapsing from their peak and selling what they bought hurt
+ */
+function scoreReputation(summary: ReturnType<typeof summarize>): CreatorReputation {
+  const launched = summary.tokensLaunched
+  if (launched === 0) {
+    return { score: null, level: reputationLevel(null), tokensLaunched: 0 }
+  }
+
+  const score = Math.round(
+    REPUTATION_WEIGHTS.graduation * (summary.graduated / launched) +
+    REPUTATION_WEIGHTS.noQuickDumps * (1 - summary.quickDumps / launched) +
+    REPUTATION_WEIGHTS.noCollapses * (1 - summary.collapsed / launched) +
+    REPUTATION_WEIGHTS.holding * (1 - (summary.averageSoldShare ?? 0) / 100)
+  )
+
+  return { score, level: reputationLevel(score), tokensLaunched: launched }
+}
+
+/**
+ * Reputation from a creator's launches, leaving out `excludeTokenId` so a
+ * token is judged by the creator's other tokens only
+ */
+export async function getCreatorReputation(
+  creatorAddress: string,
+  excludeTokenId?: string,
+  db: any = prisma
+): Promise<CreatorReputation> {
+  const records = await loadCreatorTokens(creatorAddress, excludeTokenId, db)
+  return scoreReputation(summarize(records))
+}
+
+/**
+ * Everything a creator launched with the totals and reputation behind it.
+ * Null when the address has not launched any token.
+ */
+export async function getCreatorProfile(creatorAddress: string, db: any = prisma) {
+  const tokens = await loadCreatorTokens(creatorAddress, undefined, db)
+  if (tokens.length === 0) return null
+
+  const summary = summarize(tokens)
+
+  return {
+    creatorAddress,
+    reputation: scoreReputation(summary),
+    summary,
+    tokens
+  }
+}
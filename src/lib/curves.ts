@@ -0,0 +1,391 @@
+/**
+ * Reserve state of a single token's bonding curve.
+ * Virtual reserves drive the constant product price; real reserves are
+ * what the curve actually holds and cap how much can be bought or sold.
+ */
+export interface CurveReserves {
+  virtualSolReserves: number
+  virtualTokenReserves: number
+  realSolReserves: number
+  realTokenReserves: number
+}
+
+export type CurveType = 'CONSTANT_PRODUCT' | 'LINEAR' | 'EXPONENTIAL'
+
+export const CURVE_TYPES: CurveType[] = ['CONSTANT_PRODUCT', 'LINEAR', 'EXPONENTIAL']
+
+export interface ConstantProductParams {
+  virtualSolReserves: number
+  virtualTokenReserves: number
+  curveSupply: number
+}
+
+export interface PriceRangeParams {
+  startPrice: number
+  endPrice: number
+  curveSupply: number
+}
+
+export type CurveParams = ConstantProductParams | PriceRangeParams
+
+// Default launch parameters; linear and exponential curves span the same
+// price range the default constant product curve covers before it sells out
+export const DEFAULT_CURVE_SUPPLY = 800_000_000
+export const DEFAULT_VIRTUAL_SOL_RESERVES = 30
+export const DEFAULT_VIRTUAL_TOKEN_RESERVES = 1_073_000_000
+export const DEFAULT_START_PRICE = DEFAULT_VIRTUAL_SOL_RESERVES / DEFAULT_VIRTUAL_TOKEN_RESERVES
+export const DEFAULT_END_PRICE =
+  (DEFAULT_VIRTUAL_SOL_RESERVES * DEFAULT_VIRTUAL_TOKEN_RESERVES) /
+  (DEFAULT_VIRTUAL_TOKEN_RESERVES - DEFAULT_CURVE_SUPPLY) ** 2
+
+export const DEFAULT_CURVE_PARAMS: Record<CurveType, CurveParams> = {
+  CONSTANT_PRODUCT: {
+    virtualSolReserves: DEFAULT_VIRTUAL_SOL_RESERVES,
+    virtualTokenReserves: DEFAULT_VIRTUAL_TOKEN_RESERVES,
+    curveSupply: DEFAULT_CURVE_SUPPLY
+  },
+  LINEAR: {
+    startPrice: DEFAULT_START_PRICE,
+    endPrice: DEFAULT_END_PRICE,
+    curveSupply: DEFAULT_CURVE_SUPPLY
+  },
+  EXPONENTIAL: {
+    startPrice: DEFAULT_START_PRICE,
+    endPrice: DEFAULT_END_PRICE,
+    curveSupply: DEFAULT_CURVE_SUPPLY
+  }
+}
+
+/**
+ * A bonding curve family. Every method reads the token's stored reserves;
+ * the amount sold so far is `curveSupply - realTokenReserves`.
+ */
+export interface Curve {
+  readonly type: CurveType
+  readonly params: CurveParams
+  /** Reserves for a freshly launched curve */
+  initialReserves(): CurveReserves
+  /** Spot price in SOL per token */
+  priceAt(reserves: CurveReserves): number
+  /** Tokens received for `solAmount` SOL, floored and capped by the tokens left */
+  tokensForSol(reserves: CurveReserves, solAmount: number): number
+  /** SOL released for `tokenAmount` tokens, capped by the SOL held */
+  solForTokens(reserves: CurveReserves, tokenAmount: number): number
+  /** SOL needed to buy exactly `tokenAmount` tokens (inverse of tokensForSol) */
+  solForExactTokens(reserves: CurveReserves, tokenAmount: number): number
+  /** Whole tokens to sell to release at least `solAmount` SOL (inverse of solForTokens) */
+  tokensForExactSol(reserves: CurveReserves, solAmount: number): number
+  /** Market cap of the tokens sold so far at the spot price */
+  marketCapAt(reserves: CurveReserves): number
+  /** Share of the curve's tokens already sold (0-100) */
+  progress(reserves: CurveReserves): number
+  /** Reserves after `tokenAmount` tokens are bought for `solAmount` SOL */
+  applyBuy(reserves: CurveReserves, solAmount: number, tokenAmount: number): CurveReserves
+  /** Reserves after `tokenAmount` tokens are sold for `solAmount` SOL */
+  applySell(reserves: CurveReserves, tokenAmount: number, solAmount: number): CurveReserves
+}
+
+abstract class BaseCurve implements Curve {
+  abstract readonly type: CurveType
+  abstract readonly params: CurveParams
+  abstract priceAt(reserves: CurveReserves): number
+  protected abstract tokensOut(reserves: CurveReserves, solAmount: number): number
+  protected abstract solOut(reserves: CurveReserves, tokenAmount: number): number
+  protected abstract solIn(reserves: CurveReserves, tokenAmount: number): number
+  protected abstract tokensIn(reserves: CurveReserves, solAmount: number): number
+
+  protected get curveSupply(): number {
+    return this.params.curveSupply
+  }
+
+  initialReserves(): CurveReserves {
+    return {
+      virtualSolReserves: 0,
+      virtualTokenReserves: 0,
+      realSolReserves: 0,
+      realTokenReserves: this.curveSupply
+    }
+  }
+
+  protected sold(reserves: CurveReserves): number {
+    return Math.max(0, this.curveSupply - reserves.realTokenReserves)
+  }
+
+  tokensForSol(reserves: CurveReserves, solAmount: number): number {
+    if (reserves.realTokenReserves <= 0) {
+      throw new Error('Token has graduated to DEX')
+    }
+
+    const tokensOut = this.tokensOut(reserves, solAmount)
+    return Math.floor(Math.min(tokensOut, reserves.realTokenReserves))
+  }
+
+  solForTokens(reserves: CurveReserves, tokenAmount: number): number {
+    if (reserves.realTokenReserves <= 0) {
+      throw new Error('Token has graduated to DEX')
+    }
+
+    const solOut = this.solOut(reserves, Math.min(tokenAmount, this.sold(reserves)))
+    return Math.max(0, Math.min(solOut, reserves.realSolReserves))
+  }
+
+  solForExactTokens(reserves: CurveReserves, tokenAmount: number): number {
+    if (reserves.realTokenReserves <= 0) {
+      throw new Error('Token has graduated to DEX')
+    }
+
+    if (tokenAmount > reserves.realTokenReserves) {
+      throw new Error(`Only ${Math.floor(reserves.realTokenReserves)} tokens are left on the curve`)
+    }
+
+    return this.solIn(reserves, tokenAmount)
+  }
+
+  tokensForExactSol(reserves: CurveReserves, solAmount: number): number {
+    if (reserves.realTokenReserves <= 0) {
+      throw new Error('Token has graduated to DEX')
+    }
+
+    if (solAmount > reserves.realSolReserves) {
+      throw new Error(`The curve only holds ${reserves.realSolReserves} SOL`)
+    }
+
+    const tokensIn = this.tokensIn(reserves, solAmount)
+    if (!Number.isFinite(tokensIn) || tokensIn > this.sold(reserves)) {
+      throw new Error('Not enough tokens in circulation to release that much SOL')
+    }
+
+    return Math.ceil(tokensIn)
+  }
+
+  marketCapAt(reserves: CurveReserves): number {
+    return this.sold(reserves) * this.priceAt(reserves)
+  }
+
+  progress(reserves: CurveReserves): number {
+    if (this.curveSupply <= 0) return 100
+    return Math.min(100, (this.sold(reserves) / this.curveSupply) * 100)
+  }
+
+  applyBuy(reserves: CurveReserves, solAmount: number, tokenAmount: number): CurveReserves {
+    return {
+      ...reserves,
+      realSolReserves: reserves.realSolReserves + solAmount,
+      realTokenReserves: Math.max(0, reserves.realTokenReserves - tokenAmount)
+    }
+  }
+
+  applySell(reserves: CurveReserves, tokenAmount: number, solAmount: number): CurveReserves {
+    return {
+      ...reserves,
+      realSolReserves: Math.max(0, reserves.realSolReserves - solAmount),
+      realTokenReserves: reserves.realTokenReserves + tokenAmount
+    }
+  }
+}
+
+/**
+ * Constant product curve: (sol_reserves + sol_in) * (token_reserves - token_out) = k
+ * over virtual reserves, price = virtual_sol_reserves / virtual_token_reserves
+ */
+export class ConstantProductCurve extends BaseCurve {
+  readonly type = 'CONSTANT_PRODUCT' as const
+
+  constructor(readonly params: ConstantProductParams) {
+    super()
+  }
+
+  initialReserves(): CurveReserves {
+    return {
+      virtualSolReserves: this.params.virtualSolReserves,
+      virtualTokenReserves: this.params.virtualTokenReserves,
+      realSolReserves: 0,
+      realTokenReserves: this.params.curveSupply
+    }
+  }
+
+  priceAt(reserves: CurveReserves): number {
+    if (reserves.virtualTokenReserves <= 0) return 0
+    return reserves.virtualSolReserves / reserves.virtualTokenReserves
+  }
+
+  protected tokensOut(reserves: CurveReserves, solAmount: number): number {
+    const k = reserves.virtualSolReserves * reserves.virtualTokenReserves
+    return reserves.virtualTokenReserves - k / (reserves.virtualSolReserves + solAmount)
+  }
+
+  protected solOut(reserves: CurveReserves, tokenAmount: number): number {
+    const k = reserves.virtualSolReserves * reserves.virtualTokenReserves
+    return reserves.virtualSolReserves - k / (reserves.virtualTokenReserves + tokenAmount)
+  }
+
+  protected solIn(reserves: CurveReserves, tokenAmount: number): number {
+    const k = reserves.virtualSolReserves * reserves.virtualTokenReserves
+    return k / (reserves.virtualTokenReserves - tokenAmount) - reserves.virtualSolReserves
+  }
+
+  protected tokensIn(reserves: CurveReserves, solAmount: number): number {
+    const k = reserves.virtualSolReserves * reserves.virtualTokenReserves
+    return k / (reserves.virtualSolReserves - solAmount) - reserves.virtualTokenReserves
+  }
+
+  applyBuy(reserves: CurveReserves, solAmount: number, tokenAmount: number): CurveReserves {
+    return {
+      ...super.applyBuy(reserves, solAmount, tokenAmount),
+      virtualSolReserves: reserves.virtualSolReserves + solAmount,
+      virtualTokenReserves: reserves.virtualTokenReserves - tokenAmount
+    }
+  }
+
+  applySell(reserves: CurveReserves, tokenAmount: number, solAmount: number): CurveReserves {
+    return {
+      ...super.applySell(reserves, tokenAmount, solAmount),
+      virtualSolReserves: reserves.virtualSolReserves - solAmount,
+      virtualTokenReserves: reserves.virtualTokenReserves + tokenAmount
+    }
+  }
+}
+
+/**
+ * Linear curve: price rises from startPrice to endPrice at a constant rate
+ * per token sold, price(s) = startPrice + slope * s
+ */
+export class LinearCurve extends BaseCurve {
+  readonly type = 'LINEAR' as const
+
+  constructor(readonly params: PriceRangeParams) {
+    super()
+  }
+
+  private get slope(): number {
+    return (this.params.endPrice - this.params.startPrice) / this.params.curveSupply
+  }
+
+  private priceAtSold(sold: number): number {
+    return this.params.startPrice + this.slope * sold
+  }
+
+  priceAt(reserves: CurveReserves): number {
+    return this.priceAtSold(this.sold(reserves))
+  }
+
+  // Solve slope/2 * x^2 + price(s) * x = solAmount for the tokens bought
+  protected tokensOut(reserves: CurveReserves, solAmount: number): number {
+    const price = this.priceAt(reserves)
+    if (this.slope === 0) return solAmount / price
+    return (Math.sqrt(price * price + 2 * this.slope * solAmount) - price) / this.slope
+  }
+
+  // Area under the price line between s - x and s
+  protected solOut(reserves: CurveReserves, tokenAmount: number): number {
+    return tokenAmount * (this.priceAt(reserves) - (this.slope * tokenAmount) / 2)
+  }
+
+  // Area under the price line between s and s + x
+  protected solIn(reserves: CurveReserves, tokenAmount: number): number {
+    return tokenAmount * (this.priceAt(reserves) + (this.slope * tokenAmount) / 2)
+  }
+
+  // Solve price(s) * x - slope/2 * x^2 = solAmount for the tokens sold
+  protected tokensIn(reserves: CurveReserves, solAmount: number): number {
+    const price = this.priceAt(reserves)
+    if (this.slope === 0) return solAmount / price
+    return (price - Math.sqrt(price * price - 2 * this.slope * solAmount)) / this.slope
+  }
+}
+
+/**
+ * Exponential curve: price grows by a constant factor per token sold,
+ * price(s) = startPrice * e^(growth * s), reaching endPrice at curveSupply
+ */
+export class ExponentialCurve extends BaseCurve {
+  readonly type = 'EXPONENTIAL' as const
+
+  constructor(readonly params: PriceRangeParams) {
+    super()
+  }
+
+  private get growth(): number {
+    return Math.log(this.params.endPrice / this.params.startPrice) / this.params.curveSupply
+  }
+
+  private priceAtSold(sold: number): number {
+    return this.params.startPrice * Math.exp(this.growth * sold)
+  }
+
+  priceAt(reserves: CurveReserves): number {
+    return this.priceAtSold(this.sold(reserves))
+  }
+
+  // Cost of s0 -> s1 is (price(s1) - price(s0)) / growth; invert for s1
+  protected tokensOut(reserves: CurveReserves, solAmount: number): number {
+    const price = this.priceAt(reserves)
+    if (this.growth === 0) return solAmount / price
+    return Math.log(1 + (solAmount * this.growth) / price) / this.growth
+  }
+
+  protected solOut(reserves: CurveReserves, tokenAmount: number): number {
+    const sold = this.sold(reserves)
+    if (this.growth === 0) return tokenAmount * this.params.startPrice
+    return (this.priceAtSold(sold) - this.priceAtSold(sold - tokenAmount)) / this.growth
+  }
+
+  protected solIn(reserves: CurveReserves, tokenAmount: number): number {
+    const price = this.priceAt(reserves)
+    if (this.growth === 0) return tokenAmount * price
+    return (price * (Math.exp(this.growth * tokenAmount) - 1)) / this.growth
+  }
+
+  // Proceeds of selling x are price(s) * (1 - e^(-growth * x)) / growth; invert for x
+  protected tokensIn(reserves: CurveReserves, solAmount: number): number {
+    const price = this.priceAt(reserves)
+    if (this.growth === 0) return solAmount / price
+    return -Math.log(1 - (solAmount * this.growth) / price) / this.growth
+  }
+}
+
+/**
+ * Validate curve parameters, filling in defaults for anything omitted.
+ * Throws with a user-facing message when a parameter is out of range.
+ */
+export function parseCurveParams(type: CurveType, input: any = {}): CurveParams {
+  if (!CURVE_TYPES.includes(type)) {
+    throw new Error(`Unknown curve type "${type}"`)
+  }
+
+  const params: any = { ...DEFAULT_CURVE_PARAMS[type] }
+  for (const key of Object.keys(params)) {
+    if (input?.[key] === undefined || input[key] === null || input[key] === '') continue
+    const value = Number(input[key])
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Curve parameter ${key} must be a positive number`)
+    }
+    params[key] = value
+  }
+
+  if (type === 'CONSTANT_PRODUCT' && params.curveSupply >= params.virtualTokenReserves) {
+    throw new Error('Curve supply must be less than virtual token reserves')
+  }
+
+  if (type !== 'CONSTANT_PRODUCT' && params.endPrice < params.startPrice) {
+    throw new Error('End price must be at least the start price')
+  }
+
+  return params
+}
+
+/**
+ * Build a curve from its stored type and parameters
+ */
+export function createCurve(type: CurveType = 'CONSTANT_PRODUCT', params?: any): Curve {
+  const parsed = parseCurveParams(type, params ?? {})
+
+  switch (type) {
+    case 'LINEAR':
+      return new LinearCurve(parsed as PriceRangeParams)
+    case 'EXPONENTIAL':
+      return new ExponentialCurve(parsed as PriceRangeParams)
+    default:
+      return new ConstantProductCurve(parsed as ConstantProductParams)
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Generated trading activity for demos and local development. Only used when
+ * DEMO_MODE=true, and every generated item carries `synthetic: true` so it can
+ * never be mistaken for real market data.
+ */
+export const DEMO_MODE = process.env.DEMO_MODE === 'true'
+
+export interface DemoTransaction {
+  id: string
+  type: 'BUY' | 'SELL'
+  amount: number
+  solAmount: number
+  userAddress: string
+  createdAt: string
+  synthetic: true
+}
+
+export interface DemoHolder {
+  address: string
+  balance: string
+  percentage: number
+  synthetic: true
+}
+
+function randomAddress(): string {
+  const chars = 'ABCDEFGHJKMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz123456789'
+  let result = ''
+  for (let i = 0; i < 44; i++) {
+    result += chars.charAt(Math.floor(Math.random() * chars.length))
+  }
+  return result
+}
+
+/**
+ * Ten trades within the last two hours around `price`, newest first
+ */
+export function demoTransactions(price: number): DemoTransaction[] {
+  const now = Date.now()
+  const transactions: DemoTransaction[] = []
+
+  for (let i = 0; i < 10; i++) {
+    const createdAt = new Date(now - Math.random() * 2 * 60 * 60 * 1000)
+    const solAmount = Math.random() * 5 + 0.1
+    const tradePrice = price * (1 + (Math.random() - 0.5) * 0.1)
+
+    transactions.push({
+      id: `demo_tx_${i}_${createdAt.getTime()}`,
+      type: Math.random() > 0.5 ? 'BUY' : 'SELL',
+      amount: tradePrice > 0 ? solAmount / tradePrice : 0,
+      solAmount,
+      userAddress: randomAddress(),
+      createdAt: createdAt.toISOString(),
+      synthetic: true
+    })
+  }
+
+  return transactions.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Five to ten holders of `totalSupply`, largest first
+ */
+export function demoHolders(totalSupply: number): DemoHolder[] {
+  const holders: DemoHolder[] = []
+  const count = Math.floor(Math.random() * 6) + 5
+  let remaining = 100
+
+  for (let i = 0; i < count && remaining > 5; i++) {
+    const percentage = i === 0
+      ? Math.random() * 25 + 15
+      : Math.random() * Math.min(remaining * 0.3, 12) + 1
+    remaining -= percentage
+
+    holders.push({
+      address: randomAddress(),
+      balance: (totalSupply * percentage / 100).toFixed(0),
+      percentage,
+      synthetic: true
+    })
+  }
+
+  return holders.sort((a, b) => b.percentage - a.percentage)
+}
@@ -0,0 +1,98 @@
+/**
+ * Error codes shared by the API routes and the client. Every failed API
+ * response has the shape `{ success: false, error: { code, message, fields } }`,
+ * where `fields` maps request fields to what is wrong with them.
+ */
+export const ErrorCode = {
+  // Request shape
+  INVALID_JSON: 'INVALID_JSON',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+
+  // Access
+  UNAUTHENTICATED: 'UNAUTHENTICATED',
+  WALLET_MISMATCH: 'WALLET_MISMATCH',
+  ADMIN_REQUIRED: 'ADMIN_REQUIRED',
+  RATE_LIMITED: 'RATE_LIMITED',
+
+  // Resources
+  NOT_FOUND: 'NOT_FOUND',
+  ALREADY_EXISTS: 'ALREADY_EXISTS',
+  CONFLICT: 'CONFLICT',
+
+  // Trading
+  TOKEN_GRADUATED: 'TOKEN_GRADUATED',
+  INSUFFICIENT_LIQUIDITY: 'INSUFFICIENT_LIQUIDITY',
+  SLIPPAGE_EXCEEDED: 'SLIPPAGE_EXCEEDED',
+  MAX_INPUT_EXCEEDED: 'MAX_INPUT_EXCEEDED',
+  QUOTE_INVALID: 'QUOTE_INVALID',
+  QUOTE_EXPIRED: 'QUOTE_EXPIRED',
+  QUOTE_MISMATCH: 'QUOTE_MISMATCH',
+  PRICE_MOVED: 'PRICE_MOVED',
+  TRADE_EXPIRED: 'TRADE_EXPIRED',
+  TRANSACTION_MISMATCH: 'TRANSACTION_MISMATCH',
+  TRANSACTION_NOT_FOUND: 'TRANSACTION_NOT_FOUND',
+  DUPLICATE_SIGNATURE: 'DUPLICATE_SIGNATURE',
+  TRANSACTION_FAILED: 'TRANSACTION_FAILED',
+
+  // Token creation on chain
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+  NETWORK_CONGESTION: 'NETWORK_CONGESTION',
+  TRANSACTION_TIMEOUT: 'TRANSACTION_TIMEOUT',
+  BLOCKCHAIN_ERROR: 'BLOCKCHAIN_ERROR',
+
+  // Creator fees
+  NO_FEES: 'NO_FEES',
+  IDEMPOTENCY_CONFLICT: 'IDEMPOTENCY_CONFLICT',
+  CLAIM_FAILED: 'CLAIM_FAILED',
+
+  // Server
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  INTERNAL_ERROR: 'INTERNAL_ERROR'
+} as const
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode]
+
+export type FieldErrors = Record<string, string>
+
+export interface ApiErrorBody {
+  code: ErrorCode
+  message: string
+  fields?: FieldErrors
+}
+
+// Fallback wording for the UI when a response carries no usable message
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  INVALID_JSON: 'The request could not be read',
+  VALIDATION_FAILED: 'Please check the highlighted fields',
+  PAYLOAD_TOO_LARGE: 'The upload is too large',
+  UNAUTHENTICATED: 'Sign in with your wallet first',
+  WALLET_MISMATCH: 'Your signed-in wallet does not match this request',
+  ADMIN_REQUIRED: 'Admin authorization required',
+  RATE_LIMITED: 'Too many requests, please slow down',
+  NOT_FOUND: 'Not found',
+  ALREADY_EXISTS: 'This already exists',
+  CONFLICT: 'The request conflicts with the current state',
+  TOKEN_GRADUATED: 'This token has graduated, trade it on a DEX instead',
+  INSUFFICIENT_LIQUIDITY: 'The bonding curve cannot fill this trade',
+  SLIPPAGE_EXCEEDED: 'Price impact exceeds your slippage tolerance',
+  MAX_INPUT_EXCEEDED: 'This trade costs more than your maximum',
+  QUOTE_INVALID: 'The quote is invalid, please request a new one',
+  QUOTE_EXPIRED: 'The quote has expired, please request a new one',
+  QUOTE_MISMATCH: 'The quote was issued for a different trade',
+  PRICE_MOVED: 'The price moved since your quote',
+  TRADE_EXPIRED: 'The trade expired, please try again',
+  TRANSACTION_MISMATCH: 'The signed transaction does not match the trade',
+  TRANSACTION_NOT_FOUND: 'The transaction was not found or is not confirmed yet',
+  DUPLICATE_SIGNATURE: 'This trade has already been recorded',
+  TRANSACTION_FAILED: 'The transaction was not confirmed on chain',
+  INSUFFICIENT_FUNDS: 'Insufficient funds for token creation. Need at least 0.02 SOL.',
+  NETWORK_CONGESTION: 'Network congestion detected. Please try again.',
+  TRANSACTION_TIMEOUT: 'Transaction timeout. Please check if the token was created.',
+  BLOCKCHAIN_ERROR: 'Failed to create token on Solana blockchain',
+  NO_FEES: 'No fees available to claim',
+  IDEMPOTENCY_CONFLICT: 'This claim ID was already used for a different claim',
+  CLAIM_FAILED: 'The claim transfer failed',
+  SERVICE_UNAVAILABLE: 'The service is temporarily unavailable',
+  INTERNAL_ERROR: 'An unexpected error occurred'
+}
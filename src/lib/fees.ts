@@ -0,0 +1,185 @@
+import { prisma } from '@/lib/database'
+import { fieldError } from '@/lib/apiResponse'
+
+/**
+ * Fee rates (percent of SOL traded) and how each fee is shared (percent of the fee)
+ */
+export interface FeeRates {
+  buyFee: number
+  sellFee: number
+  platformShare: number
+  creatorShare: number
+  referrerShare: number
+}
+
+export interface ResolvedFeeSchedule extends FeeRates {
+  source: 'token' | 'global' | 'default'
+}
+
+export interface FeeSplit {
+  platform: number
+  creator: number
+  referrer: number
+}
+
+// Used until a global FeeSchedule row is configured; matches the column defaults
+export const DEFAULT_FEE_RATES: FeeRates = {
+  buyFee: 1,
+  sellFee: 5,
+  platformShare: 40,
+  creatorShare: 50,
+  referrerShare: 10
+}
+
+function toRates(row: any): FeeRates {
+  return {
+    buyFee: Number(row.buyFee),
+    sellFee: Number(row.sellFee),
+    platformShare: Number(row.platformShare),
+    creatorShare: Number(row.creatorShare),
+    referrerShare: Number(row.referrerShare)
+  }
+}
+
+/**
+ * Fee schedule for a token: its own override, else the global default row,
+ * else the built-in defaults. Pass a transaction client to read inside it.
+ */
+export async function getFeeSchedule(tokenId?: string | null, db: any = prisma): Promise<ResolvedFeeSchedule> {
+  if (tokenId) {
+    const override = await db.feeSchedule.findUnique({ where: { tokenId } })
+    if (override) return { ...toRates(override), source: 'token' }
+  }
+
+  const global = await db.feeSchedule.findFirst({ where: { tokenId: null } })
+  if (global) return { ...toRates(global), source: 'global' }
+
+  return { ...DEFAULT_FEE_RATES, source: 'default' }
+}
+
+/**
+ * Apply a (partial) fee schedule update, whose fields are already valid
+ * percentages, and check the rates to store as a whole
+ */
+export function parseFeeRates(input: Partial<FeeRates>, base: FeeRates = DEFAULT_FEE_RATES): FeeRates {
+  const rates: FeeRates = { ...base }
+
+  for (const key of Object.keys(DEFAULT_FEE_RATES) as (keyof FeeRates)[]) {
+    if (input[key] !== undefined) rates[key] = input[key]
+  }
+
+  // Fees are taken from the trade itself, so a 100% fee would leave nothing to trade
+  if (rates.buyFee >= 100) throw fieldError('buyFee', 'Must be below 100%')
+  if (rates.sellFee >= 100) throw fieldError('sellFee', 'Must be below 100%')
+
+  const shares = rates.platformShare + rates.creatorShare + rates.referrerShare
+  if (Math.abs(shares - 100) > 1e-9) {
+    throw fieldError('platformShare', `Fee shares must add up to 100%, got ${shares}%`)
+  }
+
+  return rates
+}
+
+export class FeeEngine {
+  /**
+   * Fee on a trade leg. Buys pay the fee out of the SOL sent, so only
+   * `netAmount` reaches the curve; sells pay it out of the SOL the curve releases.
+   */
+  static calculateFee(rates: FeeRates, solAmount: number, isBuy: boolean) {
+    const feeRate = isBuy ? rates.buyFee : rates.sellFee
+    const feeAmount = solAmount * (feeRate / 100)
+
+    return {
+      feeAmount,
+      netAmount: solAmount - feeAmount,
+      feeRate
+    }
+  }
+
+  /**
+   * Gross SOL whose fee leaves exactly `netAmount` (inverse of calculateFee)
+   */
+  static grossForNet(rates: FeeRates, netAmount: number, isBuy: boolean): number {
+    const feeRate = isBuy ? rates.buyFee : rates.sellFee
+    return netAmount / (1 - feeRate / 100)
+  }
+
+  /**
+   * Share a fee between platform, creator and referrer.
+   * Without a referrer the referral share stays with the platform.
+   */
+  static splitFee(rates: FeeRates, feeAmount: number, hasReferrer: boolean): FeeSplit {
+    const creator = feeAmount * (rates.creatorShare / 100)
+    const referrer = hasReferrer ? feeAmount * (rates.referrerShare / 100) : 0
+
+    return {
+      platform: feeAmount - creator - referrer,
+      creator,
+      referrer
+    }
+  }
+
+  /**
+   * Write one ledger row per non-zero split of a settled trade and credit the
+   * creator's claimable balance. Runs inside the settlement transaction.
+   */
+  static async recordSplits(
+    tx: any,
+    {
+      token,
+      transactionId,
+      signature,
+      tradeType,
+      split,
+      platformAddress,
+      referrerAddress
+    }: {
+      token: { id: string; creatorAddress: string; tokenAddress: string }
+      transactionId: string
+      signature: string
+      tradeType: 'BUY' | 'SELL'
+      split: FeeSplit
+      platformAddress: string
+      referrerAddress?: string | null
+    }
+  ) {
+    const entries = [
+      { recipient: 'PLATFORM', address: platformAddress, amount: split.platform },
+      { recipient: 'CREATOR', address: token.creatorAddress, amount: split.creator },
+      { recipient: 'REFERRER', address: referrerAddress, amount: split.referrer }
+    ].filter((entry) => entry.amount > 0 && entry.address)
+
+    if (entries.length > 0) {
+      await tx.feeLedgerEntry.createMany({
+        data: entries.map((entry) => ({
+          tokenId: token.id,
+          transactionId,
+          signature,
+          tradeType,
+          recipient: entry.recipient,
+          address: entry.address,
+          amount: entry.amount
+        }))
+      })
+    }
+
+    if (split.creator > 0) {
+      await tx.creatorFee.upsert({
+        where: {
+          creatorAddress_tokenAddress: {
+            creatorAddress: token.creatorAddress,
+            tokenAddress: token.tokenAddress
+          }
+        },
+        create: {
+          creatorAddress: token.creatorAddress,
+          tokenAddress: token.tokenAddress,
+          totalFees: split.creator
+        },
+        update: {
+          totalFees: { increment: split.creator }
+        }
+      })
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import sharp from 'sharp'
+import { ApiError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+import { getStorage, storeContent, storeObject, storedUrlExists } from '@/lib/storage'
+
+export type ImageKind = 'logo' | 'banner'
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp'
+export type ImageVariant = 'thumb' | 'card' | 'banner' | 'poster'
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp'
+}
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp'
+}
+
+// Per frame
+export const MIN_IMAGE_SIDE = 32
+export const MAX_IMAGE_SIDE = 4096
+
+// All frames together; guards against decompression bombs before dimensions are known
+const MAX_INPUT_PIXELS = 100_000_000
+
+/**
+ * Static WebP copies made of every upload. Logos get a thumbnail for small
+ * avatars and a card size for token cards and pages; banners get a 3:1 crop.
+ */
+export const IMAGE_VARIANTS: Record<ImageKind, Partial<Record<ImageVariant, { width: number; height: number }>>> = {
+  logo: {
+    thumb: { width: 96, height: 96 },
+    card: { width: 192, height: 192 }
+  },
+  banner: {
+    banner: { width: 1500, height: 500 }
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+export class ImageError extends ApiError {
+  constructor(message: string) {
+    super(message, ErrorCode.VALIDATION_FAILED, 400, { image: message })
+    this.name = 'ImageError'
+  }
+}
+
+/**
+ * Identify an image from its leading bytes, whatever the upload claims to be
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg'
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return 'png'
+
+  const gifHeader = buffer.subarray(0, 6).toString('ascii')
+  if (gifHeader === 'GIF87a' || gifHeader === 'GIF89a') return 'gif'
+
+  if (buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'webp'
+  }
+
+  return null
+}
+
+// Variants sit next to the image they were made from
+function variantKey(key: string, variant: ImageVariant) {
+  return key.replace(/\.\w+$/, `-${variant}.webp`)
+}
+
+export interface StoredImage {
+  key: string
+  url: string
+  contentType: string
+  size: number
+  width: number
+  height: number
+  animated: boolean
+  variants: Partial<Record<ImageVariant, string>>
+}
+
+/**
+ * Check, clean and store an uploaded image with its variants. The image is
+ * re-encoded in its own format, which drops EXIF, GPS and other metadata;
+ * animated images stay animated and also get a static poster frame.
+ */
+export async function processImage(input: Buffer, kind: ImageKind, declaredType?: string): Promise<StoredImage> {
+  const format = detectImageFormat(input)
+  if (!format) {
+    throw new ImageError('File is not a JPEG, PNG, GIF or WebP image')
+  }
+  if (declaredType && declaredType !== IMAGE_CONTENT_TYPES[format]) {
+    throw new ImageError(`File content is ${format.toUpperCase()} but was uploaded as ${declaredType}`)
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(input, { animated: true, limitInputPixels: MAX_INPUT_PIXELS }).metadata()
+  } catch {
+    throw new ImageError('Image is corrupt or too large to decode')
+  }
+
+  const width = metadata.width || 0
+  const height = metadata.pageHeight || metadata.height || 0
+  const animated = (metadata.pages || 1) > 1
+
+  if (width < MIN_IMAGE_SIDE || height < MIN_IMAGE_SIDE) {
+    throw new ImageError(`Image must be at least ${MIN_IMAGE_SIDE}x${MIN_IMAGE_SIDE} pixels`)
+  }
+  if (width > MAX_IMAGE_SIDE || height > MAX_IMAGE_SIDE) {
+    throw new ImageError(`Image must be at most ${MAX_IMAGE_SIDE}x${MAX_IMAGE_SIDE} pixels`)
+  }
+
+  // sharp writes no metadata unless asked to; EXIF orientation is applied to the pixels first
+  let image = sharp(input, { animated, limitInputPixels: MAX_INPUT_PIXELS })
+  if (!animated) image = image.rotate()
+
+  const encoded = await {
+    jpeg: () => image.jpeg({ quality: 90, mozjpeg: true }),
+    png: () => image.png(),
+    gif: () => image.gif(),
+    webp: () => image.webp({ quality: 90 })
+  }[format]().toBuffer()
+
+  const contentType = IMAGE_CONTENT_TYPES[format]
+  const stored = await storeContent(encoded, contentType, EXTENSIONS[format])
+  const variants: Partial<Record<ImageVariant, string>> = {}
+
+  // Variants are static, taken from the first frame of animated images
+  for (const [variant, size] of Object.entries(IMAGE_VARIANTS[kind]) as [ImageVariant, { width: number; height: number }][]) {
+    const resized = await sharp(encoded, { limitInputPixels: MAX_INPUT_PIXELS })
+      .resize(size.width, size.height, { fit: 'cover' })
+      .webp({ quality: 82 })
+      .toBuffer()
+    variants[variant] = (await storeObject(variantKey(stored.key, variant), resized, 'image/webp')).url
+  }
+
+  if (animated) {
+    const poster = await sharp(encoded, { limitInputPixels: MAX_INPUT_PIXELS }).webp({ quality: 90 }).toBuffer()
+    variants.poster = (await storeObject(variantKey(stored.key, 'poster'), poster, 'image/webp')).url
+  }
+
+  return {
+    key: stored.key,
+    url: stored.url,
+    contentType,
+    size: encoded.length,
+    width,
+    height,
+    animated,
+    variants
+  }
+}
+
+/**
+ * The variants stored for an uploaded image. Empty for external URLs and
+ * for uploads made before variants existed.
+ */
+export async function storedVariants(url: string | null | undefined, kind: ImageKind): Promise<Partial<Record<ImageVariant, string>>> {
+  const storage = getStorage()
+  const key = url ? storage.keyFromUrl(url) : null
+  if (!key) return {}
+
+  const variants: Partial<Record<ImageVariant, string>> = {}
+  for (const variant of [...Object.keys(IMAGE_VARIANTS[kind]), 'poster'] as ImageVariant[]) {
+    const variantUrl = storage.urlFor(variantKey(key, variant))
+    if (await storedUrlExists(variantUrl)) variants[variant] = variantUrl
+  }
+
+  return variants
+}
+
+/**
+ * Variant URL columns for a token's logo and banner
+ */
+export async function tokenImageVariants(imageUrl?: string | null, bannerUrl?: string | null) {
+  const [logo, banner] = await Promise.all([storedVariants(imageUrl, 'logo'), storedVariants(bannerUrl, 'banner')])
+
+  return {
+    imageThumbUrl: logo.thumb || null,
+    imageCardUrl: logo.card || null,
+    imagePosterUrl: logo.poster || null,
+    bannerCropUrl: banner.banner || null
+  }
+}
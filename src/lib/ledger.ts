@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto'
+import { LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { prisma } from '@/lib/database'
+import { connection } from '@/lib/solana'
+
+export type LedgerAccount =
+  | 'TREASURY'
+  | 'CURVE_RESERVES'
+  | 'MIGRATION_PAYABLE'
+  | 'PLATFORM_REVENUE'
+  | 'CREATOR_PAYABLE'
+  | 'REFERRER_PAYABLE'
+  | 'RENT_EXPENSE'
+  | 'NETWORK_FEES'
+  | 'OWNER_EQUITY'
+
+export type LedgerEventType = 'TRADE' | 'FEE' | 'CLAIM' | 'MINT_RENT' | 'GRADUATION' | 'ADJUSTMENT'
+
+export interface LedgerLine {
+  account: LedgerAccount
+  debit?: number
+  credit?: number
+  address?: string | null
+}
+
+export interface Journal {
+  eventType: LedgerEventType
+  lines: LedgerLine[]
+  tokenId?: string | null
+  signature?: string | null
+  memo?: string
+}
+
+// Float amounts are summed per journal, so allow for rounding well below a lamport
+const BALANCE_TOLERANCE = 1e-12
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LedgerError'
+  }
+}
+
+export class Ledger {
+  /**
+   * Post a balanced journal. Zero lines are dropped; a journal whose debits
+   * and credits differ is rejected so the books can never drift.
+   */
+  static async post(db: any, journal: Journal) {
+    const lines = journal.lines.filter((line) => (line.debit || 0) > 0 || (line.credit || 0) > 0)
+    if (lines.length === 0) return null
+
+    const debits = lines.reduce((sum, line) => sum + (line.debit || 0), 0)
+    const credits = lines.reduce((sum, line) => sum + (line.credit || 0), 0)
+    if (Math.abs(debits - credits) > BALANCE_TOLERANCE * Math.max(1, debits)) {
+      throw new LedgerError(`Unbalanced ${journal.eventType} journal: debits ${debits} != credits ${credits}`)
+    }
+
+    const journalId = randomUUID()
+    await db.ledgerEntry.createMany({
+      data: lines.map((line) => ({
+        journalId,
+        eventType: journal.eventType,
+        account: line.account,
+        debit: line.debit || 0,
+        credit: line.credit || 0,
+        tokenId: journal.tokenId || null,
+        address: line.address || null,
+        signature: journal.signature || null,
+        memo: journal.memo || null
+      }))
+    })
+
+    return journalId
+  }
+
+  /**
+   * Book a settled trade: the principal moves between the treasury and the
+   * curve, and the fee is shared out to platform, creator and referrer.
+   * Buys pay the fee in with the SOL sent; sells take it out of the curve.
+   */
+  static async recordTrade(tx: any, intent: any, signature: string) {
+    const isBuy = intent.type === 'BUY'
+    const principal = isBuy ? intent.solAmount - intent.feeAmount : intent.solAmount
+
+    await Ledger.post(tx, {
+      eventType: 'TRADE',
+      tokenId: intent.tokenId,
+      signature,
+      memo: `${intent.type} ${intent.amount} tokens`,
+      lines: isBuy
+        ? [
+            { account: 'TREASURY', debit: principal, address: intent.userAddress },
+            { account: 'CURVE_RESERVES', credit: principal }
+          ]
+        : [
+            { account: 'CURVE_RESERVES', debit: principal },
+            { account: 'TREASURY', credit: principal, address: intent.userAddress }
+          ]
+    })
+
+    await Ledger.post(tx, {
+      eventType: 'FEE',
+      tokenId: intent.tokenId,
+      signature,
+      memo: `${intent.type} fee`,
+      lines: [
+        { account: isBuy ? 'TREASURY' : 'CURVE_RESERVES', debit: intent.feeAmount },
+        { account: 'PLATFORM_REVENUE', credit: intent.platformFee },
+        { account: 'CREATOR_PAYABLE', credit: intent.creatorFee },
+        { account: 'REFERRER_PAYABLE', credit: intent.referrerFee, address: intent.referrerAddress }
+      ]
+    })
+  }
+
+  /**
+   * A graduated curve's SOL stops backing curve trades and is held for the DEX migration
+   */
+  static async recordGraduation(tx: any, tokenId: string, solReserves: number, signature: string) {
+    await Ledger.post(tx, {
+      eventType: 'GRADUATION',
+      tokenId,
+      signature,
+      memo: 'Curve reserves held for DEX migration',
+      lines: [
+        { account: 'CURVE_RESERVES', debit: solReserves },
+        { account: 'MIGRATION_PAYABLE', credit: solReserves }
+      ]
+    })
+  }
+
+  /**
+   * Book the rent and network fee the treasury paid to create a token's accounts
+   */
+  static async recordMintRent(db: any, tokenId: string, signature: string, cost: { rent: number; networkFee: number }) {
+    await Ledger.post(db, {
+      eventType: 'MINT_RENT',
+      tokenId,
+      signature,
+      memo: 'Mint and token account rent',
+      lines: [
+        { account: 'RENT_EXPENSE', debit: cost.rent },
+        { account: 'NETWORK_FEES', debit: cost.networkFee },
+        { account: 'TREASURY', credit: cost.rent + cost.networkFee }
+      ]
+    })
+  }
+
+  /**
+   * Book fees an admin credits to a creator by hand: the platform owes the
+   * creator more, out of owner equity
+   */
+  static async recordCreatorCredit(
+    db: any,
+    { creatorAddress, tokenId, amount }: { creatorAddress: string; tokenId?: string | null; amount: number }
+  ) {
+    return Ledger.post(db, {
+      eventType: 'ADJUSTMENT',
+      tokenId,
+      memo: 'Creator fee credit',
+      lines: [
+        { account: 'OWNER_EQUITY', debit: amount },
+        { account: 'CREATOR_PAYABLE', credit: amount, address: creatorAddress }
+      ]
+    })
+  }
+
+  /**
+   * Book a creator fee payout from the treasury
+   */
+  static async recordClaim(
+    db: any,
+    { creatorAddress, tokenId, amount, networkFee = 0, signature }: {
+      creatorAddress: string
+      tokenId?: string | null
+      amount: number
+      networkFee?: number
+      signature: string
+    }
+  ) {
+    await Ledger.post(db, {
+      eventType: 'CLAIM',
+      tokenId,
+      signature,
+      memo: 'Creator fee claim',
+      lines: [
+        { account: 'CREATOR_PAYABLE', debit: amount, address: creatorAddress },
+        { account: 'NETWORK_FEES', debit: networkFee },
+        { account: 'TREASURY', credit: amount + networkFee, address: creatorAddress }
+      ]
+    })
+  }
+
+  /**
+   * SOL the payer actually spent in a confirmed transaction, split into the
+   * network fee and everything else (rent for accounts it funded).
+   * Returns null when the transaction cannot be fetched.
+   */
+  static async payerCost(signature: string): Promise<{ rent: number; networkFee: number } | null> {
+    const confirmed = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    })
+    if (!confirmed?.meta) return null
+
+    // The payer signs first, so it is account 0
+    const spent = confirmed.meta.preBalances[0] - confirmed.meta.postBalances[0]
+    return {
+      rent: (spent - confirmed.meta.fee) / LAMPORTS_PER_SOL,
+      networkFee: confirmed.meta.fee / LAMPORTS_PER_SOL
+    }
+  }
+
+  /**
+   * Balance of every account (debits minus credits) up to a point in time
+   */
+  static async trialBalance(before?: Date, db: any = prisma) {
+    const rows = await db.ledgerEntry.groupBy({
+      by: ['account'],
+      where: before ? { createdAt: { lt: before } } : {},
+      _sum: { debit: true, credit: true }
+    })
+
+    return rows.map((row: any) => ({
+      account: row.account as LedgerAccount,
+      debits: row._sum.debit || 0,
+      credits: row._sum.credit || 0,
+      balance: (row._sum.debit || 0) - (row._sum.credit || 0)
+    }))
+  }
+}
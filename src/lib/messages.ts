@@ -0,0 +1,46 @@
+/**
+ * Messages wallets sign to prove control of an address. Shared by the
+ * client, which asks the wallet to sign them, and the server, which rebuilds
+ * them from the request to verify the signature.
+ */
+
+export interface ClaimMessageFields {
+  creatorAddress: string
+  tokenAddress?: string | null
+  idempotencyKey: string
+  issuedAt: string
+}
+
+export function buildClaimMessage({ creatorAddress, tokenAddress, idempotencyKey, issuedAt }: ClaimMessageFields): string {
+  return [
+    'Claim creator fees',
+    `Creator: ${creatorAddress}`,
+    `Token: ${tokenAddress || 'all'}`,
+    `Claim ID: ${idempotencyKey}`,
+    `Issued at: ${issuedAt}`
+  ].join('\n')
+}
+
+export interface SignInMessageFields {
+  domain: string
+  address: string
+  nonce: string
+  issuedAt: string
+  expirationTime: string
+}
+
+/**
+ * Sign-In-With-Solana message, in the same layout as Sign-In-With-Ethereum
+ */
+export function buildSignInMessage({ domain, address, nonce, issuedAt, expirationTime }: SignInMessageFields): string {
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    address,
+    '',
+    'Sign in to SAFESOLfun. This request will not trigger a transaction or cost any fees.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+    `Expiration Time: ${expirationTime}`
+  ].join('\n')
+}
@@ -0,0 +1,59 @@
+import { PublicKey } from '@solana/web3.js'
+import { getMint } from '@solana/spl-token'
+import { connection } from '@/lib/solana'
+
+export interface MintAuthorities {
+  mint: string
+  mintAuthority: string | null
+  freezeAuthority: string | null
+  supply: string
+  decimals: number
+  /** Neither authority is set, so supply is fixed and no account can be frozen */
+  revoked: boolean
+  checkedAt: string
+}
+
+// Live authorities can be revoked at any time; revoked ones can never come back
+const LIVE_AUTHORITY_TTL_MS = 30_000
+
+const cache = new Map<string, { authorities: MintAuthorities; expiresAt: number }>()
+
+/**
+ * Read a mint account and report who can still mint supply or freeze token
+ * accounts. Throws TokenAccountNotFoundError when the mint does not exist.
+ */
+export async function getMintAuthorities(mintAddress: string): Promise<MintAuthorities> {
+  const cached = cache.get(mintAddress)
+  if (cached && cached.expiresAt > Date.now()) return cached.authorities
+
+  const mint = await getMint(connection, new PublicKey(mintAddress), 'confirmed')
+  const authorities: MintAuthorities = {
+    mint: mintAddress,
+    mintAuthority: mint.mintAuthority?.toBase58() ?? null,
+    freezeAuthority: mint.freezeAuthority?.toBase58() ?? null,
+    supply: mint.supply.toString(),
+    decimals: mint.decimals,
+    revoked: !mint.mintAuthority && !mint.freezeAuthority,
+    checkedAt: new Date().toISOString()
+  }
+
+  cache.set(mintAddress, {
+    authorities,
+    expiresAt: authorities.revoked ? Infinity : Date.now() + LIVE_AUTHORITY_TTL_MS
+  })
+
+  return authorities
+}
+
+/**
+ * Authorities for risk scoring, or undefined when the chain cannot be read.
+ * Unknown authorities are not scored either way.
+ */
+export async function tryGetMintAuthorities(mintAddress: string): Promise<MintAuthorities | undefined> {
+  try {
+    return await getMintAuthorities(mintAddress)
+  } catch (error) {
+    console.warn(`Could not read mint authorities for ${mintAddress}:`, error)
+    return undefined
+  }
+}
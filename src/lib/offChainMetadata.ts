@@ -0,0 +1,148 @@
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/database'
+import { absoluteUrl } from '@/lib/storage'
+
+/**
+ * URI stored in a token's metadata account: our own metadata route. It is
+ * keyed by mint address because the token row is only written once the mint
+ * transaction has confirmed.
+ */
+export function metadataUriFor(mintAddress: string): string {
+  return absoluteUrl(`/api/tokens/${mintAddress}/metadata.json`)
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+}
+
+function imageType(url: string): string {
+  const extension = url.match(/\.(\w+)(?:[?#]|$)/)?.[1] || url.match(/[?&]format=(\w+)/)?.[1]
+  return IMAGE_TYPES[extension?.toLowerCase() || ''] || 'image/png'
+}
+
+// Socials may be stored as handles or full links
+function socialUrl(value: string | null, base: string): string | undefined {
+  if (!value) return undefined
+  return /^https?:\/\//.test(value) ? value : `${base}${value.replace(/^@/, '')}`
+}
+
+/**
+ * Off-chain metadata in the Metaplex fungible token standard, built from the
+ * token row so edits to it show up without re-uploading anything.
+ * `content_hash` is the SHA-256 of the document without that field.
+ */
+export function buildOffChainMetadata(token: any): { metadata: Record<string, unknown>; contentHash: string } {
+  const image = token.imageUrl ? absoluteUrl(token.imageUrl) : undefined
+  const website = socialUrl(token.website, 'https://')
+  const twitter = socialUrl(token.twitter, 'https://x.com/')
+  const telegram = socialUrl(token.telegram, 'https://t.me/')
+
+  const document = {
+    name: token.name,
+    symbol: token.symbol,
+    description: token.description || '',
+    image,
+    external_url: website || absoluteUrl(`/token/${token.id}`),
+    attributes: [
+      { trait_type: 'Network', value: 'Solana' },
+      { trait_type: 'Total Supply', value: Number(token.totalSupply).toLocaleString('en-US') },
+      { trait_type: 'Bonding Curve', value: token.curveType }
+    ],
+    properties: {
+      category: 'image',
+      files: image ? [{ uri: image, type: imageType(image) }] : [],
+      creators: [{ address: token.creatorAddress, share: 100 }]
+    },
+    extensions: {
+      website,
+      twitter,
+      telegram,
+      banner: token.bannerUrl ? absoluteUrl(token.bannerUrl) : undefined
+    }
+  }
+
+  const contentHash = createHash('sha256').update(JSON.stringify(document)).digest('hex')
+  return { metadata: { ...document, content_hash: contentHash }, contentHash }
+}
+
+interface MirrorProvider {
+  name: string
+  enabled: () => boolean
+  pin: (metadata: Record<string, unknown>) => Promise<string>
+}
+
+const MIRROR_PROVIDERS: MirrorProvider[] = [
+  {
+    name: 'arweave',
+    enabled: () => !!process.env.ARWEAVE_PRIVATE_KEY,
+    pin: async (metadata) => {
+      const response = await fetch('https://node1.irys.xyz/upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.ARWEAVE_PRIVATE_KEY}`
+        },
+        body: JSON.stringify(metadata)
+      })
+      const result = response.ok ? await response.json() : null
+      if (!result?.id) throw new Error(`Irys upload failed: ${response.status}`)
+      return `https://arweave.net/${result.id}`
+    }
+  },
+  {
+    name: 'ipfs',
+    enabled: () => !!process.env.PINATA_JWT,
+    pin: async (metadata) => {
+      const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.PINATA_JWT}`
+        },
+        body: JSON.stringify({
+          pinataContent: metadata,
+          pinataMetadata: {
+            name: `${metadata.name} Metadata`,
+            keyvalues: { symbol: metadata.symbol, type: 'token-metadata' }
+          }
+        })
+      })
+      const result = response.ok ? await response.json() : null
+      if (!result?.IpfsHash) throw new Error(`Pinata upload failed: ${response.status}`)
+      return `https://gateway.pinata.cloud/ipfs/${result.IpfsHash}`
+    }
+  }
+]
+
+/**
+ * Pin the token's current metadata with every configured provider and record
+ * each copy. Mirrors are optional, so a failing provider is logged and skipped.
+ */
+export async function mirrorMetadata(token: any, db: any = prisma): Promise<{ provider: string; uri: string; contentHash: string }[]> {
+  const { metadata, contentHash } = buildOffChainMetadata(token)
+  const mirrors = []
+
+  for (const provider of MIRROR_PROVIDERS.filter((candidate) => candidate.enabled())) {
+    try {
+      const existing = await db.metadataMirror.findUnique({
+        where: { tokenId_provider_contentHash: { tokenId: token.id, provider: provider.name, contentHash } }
+      })
+      const uri = existing?.uri || await provider.pin(metadata)
+
+      if (!existing) {
+        await db.metadataMirror.create({
+          data: { tokenId: token.id, provider: provider.name, uri, contentHash }
+        })
+      }
+      mirrors.push({ provider: provider.name, uri, contentHash })
+    } catch (error) {
+      console.warn(`Metadata mirror ${provider.name} failed:`, error)
+    }
+  }
+
+  return mirrors
+}
@@ -0,0 +1,256 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { BondingCurve } from '@/lib/solana'
+import { FeeEngine, FeeRates } from '@/lib/fees'
+import { ApiError } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+export const QUOTE_TTL_MS = 30_000
+
+export type TradeSide = 'BUY' | 'SELL'
+
+export interface TradeQuote {
+  side: TradeSide
+  exactOut: boolean
+  inputAmount: number
+  outputAmount: number
+  fees: number
+  feeRate: number
+  currentPrice: number
+  priceAfter: number
+  effectivePrice: number
+  priceImpact: number
+  minReceived: number
+  maxInput: number
+  slippage: number
+}
+
+export interface SignedQuote extends TradeQuote {
+  quoteId: string
+  expiresAt: string
+}
+
+interface QuotePayload {
+  tokenId: string
+  side: TradeSide
+  exactOut: boolean
+  inputAmount: number
+  outputAmount: number
+  fees: number
+  effectivePrice: number
+  slippage: number
+  expiresAt: number
+}
+
+export class QuoteError extends ApiError {
+  constructor(message: string, code: ErrorCode, status: number) {
+    super(message, code, status)
+    this.name = 'QuoteError'
+  }
+}
+
+/**
+ * Price a trade on the token's own curve with the fee engine settlement uses.
+ * Exact-input trades fix what is paid in (SOL for buys, tokens for sells);
+ * exact-output trades fix what is received (tokens for buys, SOL after fees for sells).
+ */
+export function quoteTrade(
+  token: any,
+  side: TradeSide,
+  amount: number,
+  slippage: number,
+  rates: FeeRates,
+  exactOut: boolean = false
+): TradeQuote {
+  const curve = BondingCurve.forToken(token)
+  const reserves = BondingCurve.reservesOf(token)
+  const currentPrice = curve.priceAt(reserves)
+
+  if (side === 'BUY') {
+    // The buy fee comes out of the SOL sent; only the rest reaches the curve
+    let solIn: number
+    let curveSol: number
+    let tokensOut: number
+    if (exactOut) {
+      tokensOut = Math.floor(amount)
+      curveSol = inverse(() => curve.solForExactTokens(reserves, tokensOut))
+      solIn = FeeEngine.grossForNet(rates, curveSol, true)
+    } else {
+      solIn = amount
+      curveSol = FeeEngine.calculateFee(rates, amount, true).netAmount
+      tokensOut = curve.tokensForSol(reserves, curveSol)
+    }
+    const effectivePrice = tokensOut > 0 ? curveSol / tokensOut : 0
+
+    return {
+      side,
+      exactOut,
+      inputAmount: solIn,
+      outputAmount: tokensOut,
+      fees: solIn - curveSol,
+      feeRate: rates.buyFee,
+      currentPrice,
+      priceAfter: curve.priceAt(curve.applyBuy(reserves, curveSol, tokensOut)),
+      effectivePrice,
+      priceImpact: currentPrice > 0 ? Math.abs((effectivePrice - currentPrice) / currentPrice) * 100 : 0,
+      minReceived: exactOut ? tokensOut : Math.floor(tokensOut * (1 - slippage / 100)),
+      maxInput: exactOut ? solIn * (1 + slippage / 100) : solIn,
+      slippage
+    }
+  }
+
+  // The sell fee comes out of the SOL the curve releases
+  const grossSol = exactOut
+    ? FeeEngine.grossForNet(rates, amount, false)
+    : curve.solForTokens(reserves, amount)
+  // Exact-output sells round the tokens up to whole units; the fraction stays with the curve
+  const tokensIn = exactOut ? Math.ceil(inverse(() => curve.tokensForExactSol(reserves, grossSol))) : amount
+  const solOut = exactOut ? amount : FeeEngine.calculateFee(rates, grossSol, false).netAmount
+  const effectivePrice = grossSol / tokensIn
+
+  return {
+    side,
+    exactOut,
+    inputAmount: tokensIn,
+    outputAmount: solOut,
+    fees: grossSol - solOut,
+    feeRate: rates.sellFee,
+    currentPrice,
+    priceAfter: curve.priceAt(curve.applySell(reserves, tokensIn, grossSol)),
+    effectivePrice,
+    priceImpact: currentPrice > 0 ? Math.abs((currentPrice - effectivePrice) / currentPrice) * 100 : 0,
+    minReceived: exactOut ? solOut : solOut * (1 - slippage / 100),
+    maxInput: exactOut ? Math.ceil(tokensIn * (1 + slippage / 100)) : tokensIn,
+    slippage
+  }
+}
+
+// Inverse curve functions throw when the curve cannot fill the requested output
+function inverse(compute: () => number): number {
+  try {
+    return compute()
+  } catch (error) {
+    throw new QuoteError(
+      error instanceof Error ? error.message : 'Curve cannot fill this trade',
+      ErrorCode.INSUFFICIENT_LIQUIDITY,
+      400
+    )
+  }
+}
+
+function getQuoteSecret(): string {
+  // Never the treasury key: quote IDs are handed to users
+  const secret = process.env.QUOTE_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('QUOTE_SIGNING_SECRET environment variable is required')
+  }
+  return secret
+}
+
+function sign(encoded: string): string {
+  return createHmac('sha256', getQuoteSecret()).update(encoded).digest('base64url')
+}
+
+/**
+ * Attach an expiring, HMAC-signed quote ID that buy and sell can redeem
+ */
+export function signQuote(tokenId: string, quote: TradeQuote, now: number = Date.now()): SignedQuote {
+  const payload: QuotePayload = {
+    tokenId,
+    side: quote.side,
+    exactOut: quote.exactOut,
+    inputAmount: quote.inputAmount,
+    outputAmount: quote.outputAmount,
+    fees: quote.fees,
+    effectivePrice: quote.effectivePrice,
+    slippage: quote.slippage,
+    expiresAt: now + QUOTE_TTL_MS
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  return {
+    ...quote,
+    quoteId: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(payload.expiresAt).toISOString()
+  }
+}
+
+/**
+ * Check a quote ID's signature and expiry and that it was issued for this trade.
+ * `amount` is the fixed side of the trade: the input, or the output for exact-output quotes.
+ */
+export function verifyQuote(
+  quoteId: string,
+  tokenId: string,
+  side: TradeSide,
+  amount: number,
+  exactOut: boolean = false
+): QuotePayload {
+  const [encoded, signature] = String(quoteId).split('.')
+  if (!encoded || !signature) {
+    throw new QuoteError('Malformed quote ID', ErrorCode.QUOTE_INVALID, 400)
+  }
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new QuoteError('Quote signature is invalid', ErrorCode.QUOTE_INVALID, 400)
+  }
+
+  const payload: QuotePayload = JSON.parse(Buffer.from(encoded, 'base64url').toString())
+
+  if (payload.expiresAt < Date.now()) {
+    throw new QuoteError('Quote has expired, please request a new one', ErrorCode.QUOTE_EXPIRED, 410)
+  }
+
+  const quotedAmount = payload.exactOut ? payload.outputAmount : payload.inputAmount
+  if (
+    payload.tokenId !== tokenId ||
+    payload.side !== side ||
+    Boolean(payload.exactOut) !== exactOut ||
+    quotedAmount !== amount
+  ) {
+    throw new QuoteError('Quote was issued for a different trade', ErrorCode.QUOTE_MISMATCH, 400)
+  }
+
+  return payload
+}
+
+/**
+ * Honour a signed quote: the trade executes at exactly the quoted amounts
+ * as long as the curve can still deliver at least as good a price.
+ */
+export function redeemQuote(
+  token: any,
+  quoteId: string,
+  side: TradeSide,
+  amount: number,
+  rates: FeeRates,
+  exactOut: boolean = false
+): TradeQuote {
+  const quoted = verifyQuote(quoteId, token.id, side, amount, exactOut)
+  const fresh = quoteTrade(token, side, amount, quoted.slippage, rates, exactOut)
+
+  if (exactOut && fresh.inputAmount > quoted.inputAmount) {
+    throw new QuoteError(
+      `Price moved since your quote: you would now pay ${fresh.inputAmount} instead of ${quoted.inputAmount}`,
+      ErrorCode.PRICE_MOVED,
+      409
+    )
+  }
+
+  if (!exactOut && fresh.outputAmount < quoted.outputAmount) {
+    throw new QuoteError(
+      `Price moved since your quote: you would now receive ${fresh.outputAmount} instead of ${quoted.outputAmount}`,
+      ErrorCode.PRICE_MOVED,
+      409
+    )
+  }
+
+  return {
+    ...fresh,
+    inputAmount: quoted.inputAmount,
+    outputAmount: quoted.outputAmount,
+    fees: quoted.fees,
+    effectivePrice: quoted.effectivePrice
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionAddress } from '@/lib/session'
+import { errorResponse } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+/**
+ * Token bucket: `capacity` requests can burst at once, refilled at
+ * `refillPerMinute`. Each caller gets one bucket per IP and one per wallet.
+ */
+export interface RateLimitRule {
+  capacity: number
+  refillPerMinute: number
+}
+
+export const RATE_LIMITS = {
+  'tokens:create': { capacity: 3, refillPerMinute: 1 },
+  'tokens:dry-run': { capacity: 10, refillPerMinute: 5 },
+  upload: { capacity: 10, refillPerMinute: 5 },
+  quote: { capacity: 60, refillPerMinute: 60 },
+  buy: { capacity: 20, refillPerMinute: 10 },
+  sell: { capacity: 20, refillPerMinute: 10 },
+  'auth:nonce': { capacity: 10, refillPerMinute: 5 }
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitRoute = keyof typeof RATE_LIMITS
+
+// Launches per creator wallet per rolling 24 hours; each one costs the treasury mint rent
+export const DAILY_TOKEN_CREATION_LIMIT = Number(process.env.DAILY_TOKEN_CREATION_LIMIT) || 5
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetMs: number       // Until the bucket is full again
+  retryAfterMs: number  // Until the next request would be allowed, 0 when allowed
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+// Buckets live in process memory, so limits apply per server instance
+const buckets = new Map<string, Bucket>()
+const MAX_BUCKETS = 10_000
+
+function take(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+  const refillPerMs = rule.refillPerMinute / 60_000
+  const bucket = buckets.get(key) || { tokens: rule.capacity, updatedAt: now }
+  const tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+  const allowed = tokens >= 1
+  const remaining = allowed ? tokens - 1 : tokens
+
+  buckets.set(key, { tokens: remaining, updatedAt: now })
+  if (buckets.size > MAX_BUCKETS) prune(now)
+
+  return {
+    allowed,
+    limit: rule.capacity,
+    remaining: Math.floor(remaining),
+    resetMs: Math.ceil((rule.capacity - remaining) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - remaining) / refillPerMs)
+  }
+}
+
+// Drop buckets idle long enough to have refilled completely; a fresh bucket is identical
+function prune(now: number) {
+  const longestRefillMs = Math.max(
+    ...Object.values(RATE_LIMITS).map((rule) => (rule.capacity / rule.refillPerMinute) * 60_000)
+  )
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt > longestRefillMs) buckets.delete(key)
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For; entries left of theirs come from the client
+const TRUSTED_PROXY_COUNT = Math.max(0, Number(process.env.TRUSTED_PROXY_COUNT ?? 1) || 0)
+
+/**
+ * Client IP as seen by the outermost trusted proxy. Each proxy appends the
+ * address it received the request from, so the client is TRUSTED_PROXY_COUNT
+ * entries from the right; anything further left is whatever the client sent.
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded && TRUSTED_PROXY_COUNT > 0) {
+    const hops = forwarded.split(',').map((hop) => hop.trim()).filter(Boolean)
+    const client = hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)]
+    if (client) return client
+  }
+
+  // Route handlers do not see the socket, so the connection address comes from the platform
+  return (request as NextRequest & { ip?: string }).ip || request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Charge one request to the caller's IP bucket and wallet bucket for a route.
+ * The wallet is the signed-in one, else the address the request acts for.
+ * Returns the more restrictive of the two results; a wallet is only charged
+ * when its IP still has requests left.
+ */
+export function rateLimit(request: NextRequest, route: RateLimitRoute, wallet?: string | null): RateLimitResult {
+  const rule = RATE_LIMITS[route]
+  const now = Date.now()
+  const ipResult = take(`${route}:ip:${getClientIp(request)}`, rule, now)
+
+  const walletKey = getSessionAddress(request) || wallet
+  if (!ipResult.allowed || !walletKey) return ipResult
+
+  const walletResult = take(`${route}:wallet:${walletKey}`, rule, now)
+  return !walletResult.allowed || walletResult.remaining < ipResult.remaining ? walletResult : ipResult
+}
+
+/**
+ * Attach the standard rate-limit headers to a response
+ */
+export function withRateLimitHeaders<T extends NextResponse>(response: T, result: RateLimitResult): T {
+  response.headers.set('RateLimit-Limit', String(result.limit))
+  response.headers.set('RateLimit-Remaining', String(result.remaining))
+  response.headers.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)))
+
+  if (!result.allowed) {
+    response.headers.set('Retry-After', String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))))
+  }
+
+  return response
+}
+
+/**
+ * 429 response for a caller that is out of requests
+ */
+export function rateLimitResponse(result: RateLimitResult, error: string = 'Too many requests, please slow down') {
+  return withRateLimitHeaders(
+    errorResponse(ErrorCode.RATE_LIMITED, error, 429, { retryAfter: Math.ceil(result.retryAfterMs / 1000) }),
+    result
+  )
+}
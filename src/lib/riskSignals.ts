@@ -0,0 +1,99 @@
+import { prisma } from '@/lib/database'
+import { OnChainSignals } from '@/lib/solana'
+import { MintAuthorities } from '@/lib/mintAuthorities'
+
+// The first buyers of a token, and how soon after buying a sale counts as dumping
+const EARLY_BUYER_COUNT = 10
+const EARLY_DUMP_WINDOW_MS = 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function share(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0
+}
+
+/**
+ * Gather the inputs for RugDetector.analyzeOnChain from a token's trades and
+ * holders. `authorities` comes from the mint account; pass undefined when it
+ * could not be read.
+ */
+export async function collectOnChainSignals(
+  token: { id: string; creatorAddress: string; totalSupply: bigint | number | string },
+  authorities: MintAuthorities | undefined,
+  db: any = prisma
+): Promise<OnChainSignals> {
+  const totalSupply = Number(token.totalSupply)
+
+  const [trades, holderRows] = await Promise.all([
+    db.transaction.findMany({
+      where: { tokenId: token.id },
+      orderBy: { createdAt: 'asc' },
+      select: { userAddress: true, type: true, amount: true, solAmount: true, createdAt: true }
+    }),
+    db.holder.findMany({
+      where: { tokenId: token.id },
+      select: { address: true, balance: true }
+    })
+  ])
+
+  // Per-wallet totals, replayed from the trade history
+  const wallets = new Map<string, { bought: number; sold: number; firstBuyAt?: Date; soldEarly: number }>()
+  const earlyBuyers: string[] = []
+  const since = Date.now() - DAY_MS
+  let recentSellSol = 0
+  let recentSol = 0
+  let recentTrades = 0
+
+  for (const trade of trades) {
+    const amount = Number(trade.amount)
+    const solAmount = Number(trade.solAmount)
+    const wallet = wallets.get(trade.userAddress) || { bought: 0, sold: 0, soldEarly: 0 }
+    wallets.set(trade.userAddress, wallet)
+
+    if (trade.type === 'BUY') {
+      wallet.bought += amount
+      if (!wallet.firstBuyAt) {
+        wallet.firstBuyAt = trade.createdAt
+        if (earlyBuyers.length < EARLY_BUYER_COUNT) earlyBuyers.push(trade.userAddress)
+      }
+    } else {
+      wallet.sold += amount
+      if (wallet.firstBuyAt && trade.createdAt.getTime() - wallet.firstBuyAt.getTime() <= EARLY_DUMP_WINDOW_MS) {
+        wallet.soldEarly += amount
+      }
+    }
+
+    if (trade.createdAt.getTime() >= since) {
+      recentTrades++
+      recentSol += solAmount
+      if (trade.type === 'SELL') recentSellSol += solAmount
+    }
+  }
+
+  // The holder table is a cache of the same history; trades fill in when it is empty
+  const balances = holderRows.length > 0
+    ? holderRows.map((holder: any) => parseFloat(holder.balance) || 0)
+    : [...wallets.values()].map((wallet) => wallet.bought - wallet.sold)
+  const topBalances = balances
+    .filter((balance: number) => balance > 0)
+    .sort((a: number, b: number) => b - a)
+    .slice(0, 10)
+
+  const creator = wallets.get(token.creatorAddress)
+  const early = earlyBuyers.map((address) => wallets.get(address)!)
+  const earlyBought = early.reduce((sum, wallet) => sum + wallet.bought, 0)
+  const earlySoldEarly = early.reduce((sum, wallet) => sum + Math.min(wallet.soldEarly, wallet.bought), 0)
+
+  return {
+    top10HolderShare: topBalances.length > 0
+      ? share(topBalances.reduce((sum: number, balance: number) => sum + balance, 0), totalSupply)
+      : null,
+    creatorShare: share(Math.max(0, (creator?.bought || 0) - (creator?.sold || 0)), totalSupply),
+    creatorSoldShare: creator && creator.bought > 0 ? share(Math.min(creator.sold, creator.bought), creator.bought) : null,
+    recentSellShare: recentSol > 0 ? share(recentSellSol, recentSol) : null,
+    recentTrades,
+    earlyBuyerDumpShare: earlyBought > 0 ? share(earlySoldEarly, earlyBought) : null,
+    mintAuthority: authorities?.mintAuthority,
+    freezeAuthority: authorities?.freezeAuthority
+  }
+}
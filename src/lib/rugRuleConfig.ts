@@ -0,0 +1,60 @@
+import { prisma } from '@/lib/database'
+import { fieldError } from '@/lib/apiResponse'
+import { DEFAULT_RULE_WEIGHTS, RUG_RULES, RuleWeights } from '@/lib/rugRules'
+
+// Largest weight a single rule may carry; scores are capped at 100 anyway
+export const MAX_RULE_WEIGHT = 100
+
+/**
+ * Rule weights in effect: admin overrides on top of the registry defaults.
+ * Pass a transaction client to read inside it.
+ */
+export async function getRuleWeights(db: any = prisma): Promise<RuleWeights> {
+  const overrides = await db.rugRuleWeight.findMany()
+  const weights: RuleWeights = { ...DEFAULT_RULE_WEIGHTS }
+
+  // Overrides for rules that have since been removed are ignored
+  for (const override of overrides) {
+    if (override.ruleId in weights) weights[override.ruleId] = override.weight
+  }
+
+  return weights
+}
+
+/**
+ * Every rule with its default and effective weight, for the admin endpoint
+ */
+export async function describeRules(db: any = prisma) {
+  const weights = await getRuleWeights(db)
+
+  return RUG_RULES.map((rule) => ({
+    id: rule.id,
+    description: rule.description,
+    source: rule.source,
+    defaultWeight: rule.weight,
+    weight: weights[rule.id]
+  }))
+}
+
+/**
+ * Check a weights update: known rule IDs mapped to a weight between 0 and
+ * MAX_RULE_WEIGHT, or to null to go back to the default
+ */
+export function parseRuleWeights(input: unknown): Record<string, number | null> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw fieldError('weights', 'Must be an object of rule IDs to weights')
+  }
+
+  const updates: Record<string, number | null> = {}
+  for (const [ruleId, weight] of Object.entries(input)) {
+    if (!(ruleId in DEFAULT_RULE_WEIGHTS)) {
+      throw fieldError(`weights.${ruleId}`, 'Unknown rule')
+    }
+    if (weight !== null && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > MAX_RULE_WEIGHT)) {
+      throw fieldError(`weights.${ruleId}`, `Must be a number from 0 to ${MAX_RULE_WEIGHT}, or null for the default`)
+    }
+    updates[ruleId] = weight as number | null
+  }
+
+  return updates
+}
@@ -0,0 +1,262 @@
+import type { CreatorReputation, OnChainSignals } from '@/lib/solana'
+
+/**
+ * What a rule can look at: the token row (or create payload) and, when they
+ * have been collected, its on-chain signals and its creator's reputation
+ */
+export interface RugRuleInput {
+  token: any
+  signals?: OnChainSignals
+  creator?: CreatorReputation
+}
+
+/**
+ * One risk check. `evaluate` returns how strongly the rule applies, from 0
+ * (not at all) to 1 (fully); the rule contributes that fraction of its weight.
+ */
+export interface RugRule {
+  id: string
+  description: string
+  source: 'listing' | 'onChain' | 'creator'
+  weight: number
+  evaluate: (input: RugRuleInput) => number
+  value?: (input: RugRuleInput) => number | string | null
+}
+
+export interface RuleContribution {
+  id: string
+  description: string
+  source: RugRule['source']
+  weight: number
+  severity: number
+  points: number
+  value: number | string | null
+}
+
+export type RuleWeights = Record<string, number>
+
+// Severity of the first tier whose threshold the value is above
+function tiered(value: number | null | undefined, tiers: [number, number][]): number {
+  if (value === null || value === undefined) return 0
+  return tiers.find(([threshold]) => value > threshold)?.[1] ?? 0
+}
+
+const SUSPICIOUS_NAME_PATTERNS = ['test', '123', 'temp', 'sample', 'xxx']
+
+// Authorities come from the signals once collected, else from the token payload
+const mintAuthorityOf = ({ token, signals }: RugRuleInput) =>
+  signals && signals.mintAuthority !== undefined ? signals.mintAuthority : token.mintAuthority
+const freezeAuthorityOf = ({ token, signals }: RugRuleInput) =>
+  signals && signals.freezeAuthority !== undefined ? signals.freezeAuthority : token.freezeAuthority
+
+/**
+ * Every rule behind a rug score, with its default weight. Weights can be
+ * overridden per rule by admins; see src/lib/rugRuleConfig.ts.
+ */
+export const RUG_RULES: RugRule[] = [
+  // Listing
+  {
+    id: 'missing_creator',
+    description: 'No creator address provided',
+    source: 'listing',
+    weight: 20,
+    evaluate: ({ token }) => token.creatorAddress ? 0 : 1
+  },
+  {
+    id: 'suspicious_creator',
+    description: 'Creator address looks generated (starts with 1111)',
+    source: 'listing',
+    weight: 10,
+    evaluate: ({ token }) => token.creatorAddress?.startsWith('1111') ? 1 : 0
+  },
+  {
+    id: 'few_socials',
+    description: 'Few or no social links',
+    source: 'listing',
+    weight: 15,
+    evaluate: ({ token }) => {
+      const links = [token.website, token.twitter, token.telegram].filter(Boolean).length
+      return (3 - links) / 3
+    },
+    value: ({ token }) => [token.website, token.twitter, token.telegram].filter(Boolean).length
+  },
+  {
+    id: 'weak_description',
+    description: 'Missing or very short description',
+    source: 'listing',
+    weight: 15,
+    evaluate: ({ token }) => {
+      if (!token.description) return 1
+      if (token.description.length < 20) return 2 / 3
+      if (token.description.length < 50) return 1 / 3
+      return 0
+    },
+    value: ({ token }) => token.description?.length ?? 0
+  },
+  {
+    id: 'missing_image',
+    description: 'No token image',
+    source: 'listing',
+    weight: 10,
+    evaluate: ({ token }) => token.imageUrl ? 0 : 1
+  },
+  {
+    id: 'missing_banner',
+    description: 'No banner image',
+    source: 'listing',
+    weight: 5,
+    evaluate: ({ token }) => token.bannerUrl ? 0 : 1
+  },
+  {
+    id: 'short_name',
+    description: 'Name shorter than 3 characters',
+    source: 'listing',
+    weight: 5,
+    evaluate: ({ token }) => !token.name || token.name.length < 3 ? 1 : 0
+  },
+  {
+    id: 'short_symbol',
+    description: 'Symbol shorter than 2 characters',
+    source: 'listing',
+    weight: 5,
+    evaluate: ({ token }) => !token.symbol || token.symbol.length < 2 ? 1 : 0
+  },
+  {
+    id: 'suspicious_name',
+    description: 'Name or symbol looks like a test token',
+    source: 'listing',
+    weight: 10,
+    evaluate: ({ token }) => {
+      const nameToCheck = `${token.name} ${token.symbol}`.toLowerCase()
+      return SUSPICIOUS_NAME_PATTERNS.some((pattern) => nameToCheck.includes(pattern)) ? 1 : 0
+    }
+  },
+  {
+    id: 'excessive_supply',
+    description: 'Total supply above one trillion tokens',
+    source: 'listing',
+    weight: 10,
+    evaluate: ({ token }) => Number(token.totalSupply || 0) > 1_000_000_000_000 ? 1 : 0,
+    value: ({ token }) => Number(token.totalSupply || 0)
+  },
+  {
+    id: 'no_initial_buy',
+    description: 'Creator made no initial buy',
+    source: 'listing',
+    weight: 5,
+    evaluate: ({ token }) => token.initialBuy ? 0 : 1
+  },
+
+  // On-chain
+  {
+    id: 'mint_authority',
+    description: 'Mint authority is active - supply can be increased',
+    source: 'onChain',
+    weight: 25,
+    evaluate: (input) => mintAuthorityOf(input) ? 1 : 0,
+    value: (input) => mintAuthorityOf(input) ?? null
+  },
+  {
+    id: 'freeze_authority',
+    description: 'Freeze authority is active - holder accounts can be frozen',
+    source: 'onChain',
+    weight: 25,
+    evaluate: (input) => freezeAuthorityOf(input) ? 1 : 0,
+    value: (input) => freezeAuthorityOf(input) ?? null
+  },
+  {
+    id: 'top10_concentration',
+    description: 'The 10 largest holders own a large share of supply',
+    source: 'onChain',
+    weight: 25,
+    evaluate: ({ signals }) => tiered(signals?.top10HolderShare, [[50, 1], [30, 0.6], [15, 0.32]]),
+    value: ({ signals }) => signals?.top10HolderShare ?? null
+  },
+  {
+    id: 'creator_share',
+    description: 'The creator holds a large share of supply',
+    source: 'onChain',
+    weight: 20,
+    evaluate: ({ signals }) => tiered(signals?.creatorShare, [[10, 1], [5, 0.5], [2, 0.25]]),
+    value: ({ signals }) => signals?.creatorShare ?? null
+  },
+  {
+    id: 'creator_selling',
+    description: 'The creator has sold much of what they bought',
+    source: 'onChain',
+    weight: 15,
+    evaluate: ({ signals }) => tiered(signals?.creatorSoldShare, [[50, 1], [20, 0.5]]),
+    value: ({ signals }) => signals?.creatorSoldShare ?? null
+  },
+  {
+    id: 'recent_sells',
+    description: 'Most of the last 24h volume was sells',
+    source: 'onChain',
+    weight: 15,
+    // Only judged once there is enough trading
+    evaluate: ({ signals }) => signals && signals.recentTrades >= 5
+      ? tiered(signals.recentSellShare, [[70, 1], [55, 0.5]])
+      : 0,
+    value: ({ signals }) => signals?.recentSellShare ?? null
+  },
+  {
+    id: 'early_buyer_dump',
+    description: 'The first buyers sold within an hour of buying',
+    source: 'onChain',
+    weight: 20,
+    evaluate: ({ signals }) => tiered(signals?.earlyBuyerDumpShare, [[50, 1], [25, 0.5]]),
+    value: ({ signals }) => signals?.earlyBuyerDumpShare ?? null
+  },
+
+  // Creator
+  {
+    id: 'creator_reputation',
+    description: 'Earlier tokens from this creator were dumped or collapsed',
+    source: 'creator',
+    weight: 25,
+    // First launches have no record to judge
+    evaluate: ({ creator }) => creator?.score != null ? (100 - creator.score) / 100 : 0,
+    value: ({ creator }) => creator?.score ?? null
+  }
+]
+
+export const DEFAULT_RULE_WEIGHTS: RuleWeights = Object.fromEntries(
+  RUG_RULES.map((rule) => [rule.id, rule.weight])
+)
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Apply the given rules and return each one's contribution. Scores are capped
+ * at 100; above that, every contribution is scaled down by the same factor so
+ * the contributions still add up to the score.
+ */
+export function evaluateRules(
+  input: RugRuleInput,
+  weights: RuleWeights = DEFAULT_RULE_WEIGHTS,
+  rules: RugRule[] = RUG_RULES
+): { score: number; contributions: RuleContribution[] } {
+  const evaluated = rules.map((rule) => {
+    const weight = weights[rule.id] ?? rule.weight
+    const severity = Math.min(Math.max(rule.evaluate(input), 0), 1)
+    return { rule, weight, severity, raw: weight * severity }
+  })
+
+  const total = evaluated.reduce((sum, { raw }) => sum + raw, 0)
+  const scale = total > 100 ? 100 / total : 1
+
+  const contributions = evaluated.map(({ rule, weight, severity, raw }) => ({
+    id: rule.id,
+    description: rule.description,
+    source: rule.source,
+    weight,
+    severity: round(severity),
+    points: round(raw * scale),
+    value: rule.value ? rule.value(input) : null
+  }))
+
+  return {
+    score: round(contributions.reduce((sum, contribution) => sum + contribution.points, 0)),
+    contributions
+  }
+}
@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events'
+import { prisma } from '@/lib/database'
+import { RugDetector } from '@/lib/solana'
+import { tryGetMintAuthorities } from '@/lib/mintAuthorities'
+import { collectOnChainSignals } from '@/lib/riskSignals'
+import { getRuleWeights } from '@/lib/rugRuleConfig'
+import { getCreatorReputation } from '@/lib/creatorReputation'
+
+export type RugScoreTrigger = 'launch' | 'trades' | 'schedule'
+
+// Rescore a token after every this many trades on it
+export const RUG_SCORE_TRADE_INTERVAL = Number(process.env.RUG_SCORE_TRADE_INTERVAL) || 10
+
+// Rescore tokens that have not been rescored for this long; the 24h sell window moves even without trades
+export const RUG_SCORE_REFRESH_MS = (Number(process.env.RUG_SCORE_REFRESH_MINUTES) || 15) * 60 * 1000
+
+// Tokens rescored per scheduled run
+const SCHEDULED_BATCH_SIZE = 50
+
+// How long a raised risk band is reported as an alert
+export const RISK_ALERT_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export interface RiskBandRaised {
+  tokenId: string
+  from: string
+  to: string
+  score: number
+  snapshotId: string
+  at: Date
+}
+
+const events = new EventEmitter()
+
+/**
+ * Listen for tokens moving up a risk band, e.g. MEDIUM to HIGH.
+ * Events are emitted in this server process only. Returns an unsubscribe function.
+ */
+export function onRiskBandRaised(listener: (event: RiskBandRaised) => void): () => void {
+  events.on('riskBandRaised', listener)
+  return () => events.off('riskBandRaised', listener)
+}
+
+function bandIndex(riskLevel: string | null | undefined): number {
+  return RugDetector.RISK_LEVELS.indexOf(riskLevel || '')
+}
+
+/**
+ * Rescore a token from its listing, its on-chain activity and its creator's
+ * other launches, record a snapshot and store the new score on the token.
+ * Scheduled runs skip the snapshot when the score has not changed.
+ */
+export async function recomputeRugScore(tokenId: string, trigger: RugScoreTrigger, db: any = prisma) {
+  const token = await db.token.findUnique({ where: { id: tokenId } })
+  if (!token) return null
+
+  const authorities = await tryGetMintAuthorities(token.tokenAddress)
+  const signals = await collectOnChainSignals(token, authorities, db)
+  const creator = await getCreatorReputation(token.creatorAddress, token.id, db)
+  const { score, riskLevel, listingScore, onChainScore, creatorScore, contributions } =
+    RugDetector.getBreakdown(token, signals, await getRuleWeights(db), creator)
+
+  const previous = await db.rugScoreSnapshot.findFirst({
+    where: { tokenId },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (trigger === 'schedule' && previous && previous.score === score) {
+    await db.token.update({ where: { id: tokenId }, data: { rugScoreUpdatedAt: new Date() } })
+    return previous
+  }
+
+  // Before the first snapshot, compare against the score the token launched with
+  const previousRiskLevel = previous?.riskLevel ?? RugDetector.getRiskLevel(Number(token.rugScore))
+  const escalated = bandIndex(riskLevel) > bandIndex(previousRiskLevel)
+
+  const snapshot = await db.rugScoreSnapshot.create({
+    data: {
+      tokenId,
+      score,
+      riskLevel,
+      listingScore,
+      onChainScore,
+      creatorScore,
+      factors: contributions,
+      trigger,
+      previousRiskLevel,
+      escalated
+    }
+  })
+
+  await db.token.update({
+    where: { id: tokenId },
+    data: { rugScore: score, rugScoreUpdatedAt: snapshot.createdAt }
+  })
+
+  if (escalated) {
+    events.emit('riskBandRaised', {
+      tokenId,
+      from: previousRiskLevel,
+      to: riskLevel,
+      score,
+      snapshotId: snapshot.id,
+      at: snapshot.createdAt
+    } satisfies RiskBandRaised)
+  }
+
+  return snapshot
+}
+
+/**
+ * Rescore a token if its latest trade completes another RUG_SCORE_TRADE_INTERVAL trades
+ */
+export async function recomputeAfterTrade(tokenId: string, db: any = prisma) {
+  const trades = await db.transaction.count({ where: { tokenId } })
+  if (trades === 0 || trades % RUG_SCORE_TRADE_INTERVAL !== 0) return null
+  return recomputeRugScore(tokenId, 'trades', db)
+}
+
+/**
+ * Rescore the trading tokens whose score is older than RUG_SCORE_REFRESH_MS,
+ * stalest first. Returns how many were rescored.
+ */
+export async function rescoreStaleTokens(db: any = prisma): Promise<number> {
+  const cutoff = new Date(Date.now() - RUG_SCORE_REFRESH_MS)
+  const stale = await db.token.findMany({
+    where: {
+      isGraduated: false,
+      OR: [{ rugScoreUpdatedAt: null }, { rugScoreUpdatedAt: { lt: cutoff } }]
+    },
+    select: { id: true },
+    orderBy: { rugScoreUpdatedAt: 'asc' },
+    take: SCHEDULED_BATCH_SIZE
+  })
+
+  let rescored = 0
+  for (const token of stale) {
+    try {
+      await recomputeRugScore(token.id, 'schedule', db)
+      rescored++
+    } catch (error) {
+      console.warn(`Scheduled rug score recompute failed for ${token.id}:`, error)
+    }
+  }
+
+  return rescored
+}
+
+let scheduler: NodeJS.Timeout | null = null
+let running = false
+
+/**
+ * Rescore stale tokens every RUG_SCORE_REFRESH_MS. Started once per server
+ * process from src/instrumentation.ts.
+ */
+export function startRugScoreScheduler() {
+  if (scheduler) return
+
+  scheduler = setInterval(async () => {
+    // A slow run must not overlap the next one
+    if (running) return
+    running = true
+    try {
+      await rescoreStaleTokens()
+    } catch (error) {
+      console.error('Scheduled rug score recompute failed:', error)
+    } finally {
+      running = false
+    }
+  }, RUG_SCORE_REFRESH_MS)
+  scheduler.unref?.()
+}
+
+/**
+ * Score history for a token, oldest first, and the latest risk band raise
+ * within RISK_ALERT_WINDOW_MS
+ */
+export async function getRugScoreTrend(tokenId: string, limit: number = 30, db: any = prisma) {
+  const snapshots = await db.rugScoreSnapshot.findMany({
+    where: { tokenId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: { score: true, riskLevel: true, trigger: true, previousRiskLevel: true, escalated: true, createdAt: true }
+  })
+
+  const points = snapshots.reverse()
+  const first = points[0]
+  const last = points[points.length - 1]
+  const alertSince = Date.now() - RISK_ALERT_WINDOW_MS
+  const raised = snapshots.find((snapshot: any) => snapshot.escalated && snapshot.createdAt.getTime() >= alertSince)
+
+  return {
+    points: points.map(({ score, riskLevel, trigger, createdAt }: any) => ({ score, riskLevel, trigger, createdAt })),
+    change: first && last ? last.score - first.score : 0,
+    alert: raised ? { from: raised.previousRiskLevel, to: raised.riskLevel, at: raised.createdAt } : null
+  }
+}
+
+/**
+ * Latest risk band raise within RISK_ALERT_WINDOW_MS for each of the given tokens
+ */
+export async function getRecentRiskAlerts(tokenIds: string[], db: any = prisma) {
+  const raised = await db.rugScoreSnapshot.findMany({
+    where: {
+      tokenId: { in: tokenIds },
+      escalated: true,
+      createdAt: { gte: new Date(Date.now() - RISK_ALERT_WINDOW_MS) }
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { tokenId: true, previousRiskLevel: true, riskLevel: true, createdAt: true }
+  })
+
+  const alerts = new Map<string, { from: string; to: string; at: Date }>()
+  for (const snapshot of raised) {
+    if (!alerts.has(snapshot.tokenId)) {
+      alerts.set(snapshot.tokenId, { from: snapshot.previousRiskLevel, to: snapshot.riskLevel, at: snapshot.createdAt })
+    }
+  }
+  return alerts
+}
@@ -0,0 +1,232 @@
+import { PublicKey } from '@solana/web3.js'
+import { v } from '@/lib/validation'
+import { CURVE_TYPES } from '@/lib/curves'
+
+/**
+ * Request schemas for every API route, kept here because Next.js route
+ * modules may only export their handlers
+ */
+
+const percent = () => v.number({ min: 0, max: 100 })
+
+// Token names and symbols go into the on-chain metadata account, whose limits are in bytes
+const onChainText = (max: number) => v.string({ min: 1, max }).refine(
+  (text) => new TextEncoder().encode(text).length <= max,
+  `Must fit in ${max} bytes`
+)
+const pageSize = (fallback: number) => v.number({ min: 1, max: 100, integer: true }).default(fallback)
+const flag = () => v.boolean().default(false)
+
+// Uploads are served from /uploads or the storage bucket; anything else must be a web URL
+const imageUrl = () => v.string({
+  max: 2048,
+  pattern: /^(\/uploads\/|https?:\/\/)/,
+  message: 'Must be an uploaded image or an http(s) URL'
+})
+
+// Token creators receive fees, so they must be able to sign for them
+const walletAddress = () => v.address().refine(
+  (address) => PublicKey.isOnCurve(new PublicKey(address).toBytes()),
+  'Must be a wallet address, not a program address'
+)
+
+// Tokens
+
+export const tokenListQuery = {
+  category: v.enum(['all', 'new', 'graduating', 'graduated', 'low-risk', 'trending', 'watchlist'] as const).default('all'),
+  sortBy: v.enum(['newest', 'oldest', 'marketCap', 'price', 'name', 'symbol', 'safest', 'riskiest', 'organicVolume'] as const).default('newest'),
+  search: v.string({ max: 100 }).optional(),
+  limit: pageSize(50)
+}
+
+export const createTokenBody = {
+  name: onChainText(32),
+  symbol: onChainText(10),
+  creatorAddress: walletAddress(),
+  description: v.string({ max: 1000 }).optional(),
+  imageUrl: imageUrl().optional(),
+  bannerUrl: imageUrl().optional(),
+  website: v.url().optional(),
+  twitter: v.string({ max: 100 }).optional(),
+  telegram: v.string({ max: 100 }).optional(),
+  totalSupply: v.number({ gt: 0, integer: true }).optional(),
+  curveType: v.enum(CURVE_TYPES).optional(),
+  curveParams: v.any().optional()
+}
+
+// Dry runs validate, price and simulate a launch without sending or saving anything
+export const createTokenQuery = {
+  dryRun: flag()
+}
+
+export const holdersQuery = {
+  limit: pageSize(50),
+  stats: flag(),
+  whales: flag(),
+  minBalance: v.number({ min: 0 }).default(0),
+  realtime: flag()
+}
+
+export const transactionsQuery = {
+  limit: pageSize(50),
+  page: v.number({ min: 1, integer: true }).default(1),
+  type: v.enum(['BUY', 'SELL'] as const).optional(),
+  userAddress: v.address().optional(),
+  realtime: flag(),
+  pnl: flag()
+}
+
+export const priceHistoryQuery = {
+  hours: v.number({ min: 1, max: 24 * 30, integer: true }).default(24),
+  realtime: flag(),
+  granularity: v.enum(['auto', '1m', '5m', '15m', '1h'] as const).default('auto')
+}
+
+export const pricePointBody = {
+  price: v.number({ gt: 0 }),
+  volume: v.number({ min: 0 }).default(0)
+}
+
+// Uploads
+
+export const uploadForm = {
+  kind: v.enum(['logo', 'banner'] as const).default('logo')
+}
+
+// Trading
+
+export const quoteBody = {
+  isBuying: v.boolean(),
+  inputAmount: v.number({ gt: 0 }).optional(),
+  outputAmount: v.number({ gt: 0 }).optional(),
+  slippage: percent().default(1),
+  exactOut: flag()
+}
+
+export const buyBody = {
+  buyerAddress: v.address(),
+  solAmount: v.number({ gt: 0 }).optional(),
+  // Exact-output buys receive whole tokens
+  tokenAmount: v.number({ gt: 0, integer: true }).optional(),
+  exactOut: flag(),
+  maxSolAmount: v.number({ gt: 0 }).optional(),
+  slippage: percent().default(5),
+  referrerAddress: v.address().optional(),
+  quoteId: v.string().optional()
+}
+
+export const sellBody = {
+  sellerAddress: v.address(),
+  // The vault transfer moves whole tokens, so that is all a sell can price
+  tokenAmount: v.number({ gt: 0, integer: true }).optional(),
+  solAmount: v.number({ gt: 0 }).optional(),
+  exactOut: flag(),
+  maxTokenAmount: v.number({ gt: 0 }).optional(),
+  slippage: percent().default(5),
+  referrerAddress: v.address().optional(),
+  quoteId: v.string().optional()
+}
+
+export const submitTradeBody = {
+  intentId: v.string(),
+  transaction: v.string()
+}
+
+export const confirmTradeBody = {
+  signature: v.string({ pattern: /^[1-9A-HJ-NP-Za-km-z]{64,90}$/, message: 'Must be a base58 transaction signature' }),
+  intentId: v.string().optional()
+}
+
+// Fees
+
+export const feeRatesBody = {
+  buyFee: percent().optional(),
+  sellFee: percent().optional(),
+  platformShare: percent().optional(),
+  creatorShare: percent().optional(),
+  referrerShare: percent().optional()
+}
+
+export const claimFeesBody = {
+  creatorAddress: v.address(),
+  tokenAddress: v.address().optional(),
+  idempotencyKey: v.string({
+    pattern: /^[A-Za-z0-9_-]{8,128}$/,
+    message: 'Must be 8-128 letters, digits, - or _'
+  }),
+  issuedAt: v.string(),
+  signature: v.string()
+}
+
+export const creatorFeesQuery = {
+  creatorAddress: v.address(),
+  tokenAddress: v.address().optional()
+}
+
+export const creatorParams = {
+  creatorAddress: v.address()
+}
+
+export const creditCreatorFeesBody = {
+  tokenAddress: v.address(),
+  additionalFees: v.number({ gt: 0 })
+}
+
+// Admin
+
+export const treasuryReportQuery = {
+  period: v.enum(['day', 'week', 'month'] as const).default('month'),
+  from: v.date().optional(),
+  to: v.date().optional()
+}
+
+// Rule IDs to weights, checked against the rule registry by parseRuleWeights
+export const rugRuleWeightsBody = {
+  weights: v.any()
+}
+
+export const treasuryAdjustmentBody = {
+  amount: v.number().refine((amount) => amount !== 0, 'Must be a non-zero number of SOL'),
+  memo: v.string({ min: 1, max: 500 }),
+  signature: v.string().optional()
+}
+
+// Auth and users
+
+export const nonceBody = {
+  address: v.address()
+}
+
+export const verifySignInBody = {
+  address: v.address(),
+  nonce: v.string(),
+  signature: v.string()
+}
+
+export const addressParams = {
+  address: v.address()
+}
+
+export const tokenBalanceParams = {
+  address: v.address(),
+  tokenId: v.string()
+}
+
+export const watchlistBody = {
+  userAddress: v.address()
+}
+
+export const watchlistParams = {
+  userAddress: v.address()
+}
+
+export const watchlistQuery = {
+  limit: pageSize(50)
+}
+
+export const watchlistTransactionsQuery = {
+  page: v.number({ min: 1, integer: true }).default(1),
+  limit: pageSize(20),
+  type: v.enum(['BUY', 'SELL'] as const).optional(),
+  userAddress: v.address().optional()
+}
@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/apiResponse'
+import { ErrorCode } from '@/lib/errors'
+
+export const SESSION_COOKIE = 'safesol_session'
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+interface SessionPayload {
+  address: string
+  expiresAt: number
+}
+
+function getSessionSecret(): string {
+  // Never the treasury key: session cookies are handed to users
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required')
+  }
+  return secret
+}
+
+function sign(encoded: string): string {
+  return createHmac('sha256', getSessionSecret()).update(`session:${encoded}`).digest('base64url')
+}
+
+/**
+ * Start a session for a wallet that has proven control of its key
+ * by attaching the signed session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, address: string, now: number = Date.now()) {
+  const payload: SessionPayload = { address, expiresAt: now + SESSION_TTL_MS }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  response.cookies.set(SESSION_COOKIE, `${encoded}.${sign(encoded)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(payload.expiresAt)
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  })
+}
+
+/**
+ * Wallet address of the signed-in caller, or null without a valid session
+ */
+export function getSessionAddress(request: NextRequest): string | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value
+  if (!cookie) return null
+
+  const [encoded, signature] = cookie.split('.')
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString())
+    return payload.expiresAt > Date.now() ? payload.address : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Guard for routes acting on behalf of a wallet: the caller must be signed in
+ * as `address`. Returns an error response to send back, or null when allowed.
+ */
+export function requireWallet(request: NextRequest, address: string): NextResponse | null {
+  const sessionAddress = getSessionAddress(request)
+
+  if (!sessionAddress) {
+    return errorResponse(ErrorCode.UNAUTHENTICATED, 'Sign in with your wallet first', 401)
+  }
+
+  if (sessionAddress !== address) {
+    return errorResponse(ErrorCode.WALLET_MISMATCH, 'Signed-in wallet does not match the requested address', 403)
+  }
+
+  return null
+}
@@ -1,170 +1,126 @@
 import { Connection, PublicKey } from '@solana/web3.js'
+import {
+  Curve,
+  CurveReserves,
+  CurveType,
+  createCurve,
+  DEFAULT_CURVE_SUPPLY,
+  DEFAULT_VIRTUAL_SOL_RESERVES,
+  DEFAULT_VIRTUAL_TOKEN_RESERVES
+} from '@/lib/curves'
+import { RUG_RULES, RuleContribution, RuleWeights, evaluateRules } from '@/lib/rugRules'
 
 export const connection = new Connection(
   process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.devnet.solana.com',
   'confirmed'
 )
 
+export type { CurveReserves, CurveType, CurveParams, Curve } from '@/lib/curves'
+
 export class BondingCurve {
-  // Constants for the bonding curve
-  static readonly TARGET_SUPPLY = 800_000_000 // 800M tokens before graduation
-  static readonly INITIAL_VIRTUAL_SOL_RESERVES = 30 // Virtual SOL reserves
-  static readonly INITIAL_VIRTUAL_TOKEN_RESERVES = 1_073_000_000 // Virtual token reserves
+  // Default launch parameters for new curves
+  static readonly TARGET_SUPPLY = DEFAULT_CURVE_SUPPLY // 800M tokens before graduation
+  static readonly INITIAL_VIRTUAL_SOL_RESERVES = DEFAULT_VIRTUAL_SOL_RESERVES // Virtual SOL reserves
+  static readonly INITIAL_VIRTUAL_TOKEN_RESERVES = DEFAULT_VIRTUAL_TOKEN_RESERVES // Virtual token reserves
   static readonly GRADUATION_MARKET_CAP = 30 // SOL needed to graduate
 
   /**
-   * Calculate current price based on supply using constant product formula
-   * Price = (virtual_sol_reserves) / (virtual_token_reserves - current_supply)
+   * Build a curve of the given family, validating its parameters
    */
-  static calculatePrice(currentSupply: number): number {
-    if (currentSupply >= this.TARGET_SUPPLY) {
-      return this.GRADUATION_MARKET_CAP / this.TARGET_SUPPLY
-    }
-
-    const virtualTokenReserves = this.INITIAL_VIRTUAL_TOKEN_RESERVES - currentSupply
-    if (virtualTokenReserves <= 0) return 0
-    
-    return this.INITIAL_VIRTUAL_SOL_RESERVES / virtualTokenReserves
+  static create(type: CurveType = 'CONSTANT_PRODUCT', params?: any): Curve {
+    return createCurve(type, params)
   }
 
   /**
-   * Calculate tokens received for a given SOL amount
-   * Uses the constant product formula: (sol_reserves + sol_in) * (token_reserves - token_out) = k
+   * The curve a token was launched with (or API payload carrying curveType/curveParams)
    */
-  static calculateTokensForSol(solAmount: number, currentSupply: number): number {
-    if (currentSupply >= this.TARGET_SUPPLY) {
-      throw new Error('Token has graduated to DEX')
-    }
-
-    const virtualSolReserves = this.INITIAL_VIRTUAL_SOL_RESERVES
-    const virtualTokenReserves = this.INITIAL_VIRTUAL_TOKEN_RESERVES - currentSupply
-    
-    // Constant product: k = virtualSolReserves * virtualTokenReserves
-    const k = virtualSolReserves * virtualTokenReserves
-    
-    // After adding SOL: newTokenReserves = k / (virtualSolReserves + solAmount)
-    const newTokenReserves = k / (virtualSolReserves + solAmount)
-    
-    // Tokens out = current token reserves - new token reserves
-    const tokensOut = virtualTokenReserves - newTokenReserves
-    
-    return Math.floor(tokensOut)
+  static forToken(token: any): Curve {
+    return createCurve(token.curveType ?? 'CONSTANT_PRODUCT', token.curveParams ?? undefined)
   }
 
   /**
-   * Calculate SOL received for a given token amount
+   * Read the reserves stored on a token row (or API payload)
    */
-  static calculateSolForTokens(tokenAmount: number, currentSupply: number): number {
-    if (currentSupply >= this.TARGET_SUPPLY) {
-      throw new Error('Token has graduated to DEX')
-    }
-
-    const virtualSolReserves = this.INITIAL_VIRTUAL_SOL_RESERVES
-    const virtualTokenReserves = this.INITIAL_VIRTUAL_TOKEN_RESERVES - currentSupply
-    
-    // Constant product: k = virtualSolReserves * virtualTokenReserves
-    const k = virtualSolReserves * virtualTokenReserves
-    
-    // After removing tokens: newSolReserves = k / (virtualTokenReserves + tokenAmount)
-    const newSolReserves = k / (virtualTokenReserves + tokenAmount)
-    
-    // SOL out = current SOL reserves - new SOL reserves
-    const solOut = virtualSolReserves - newSolReserves
-    
-    return Math.max(0, solOut)
-  }
-
-  /**
-   * Calculate market cap at current supply
-   */
-  static calculateMarketCap(currentSupply: number): number {
-    if (currentSupply >= this.TARGET_SUPPLY) {
-      return this.GRADUATION_MARKET_CAP
+  static reservesOf(token: any): CurveReserves {
+    return {
+      virtualSolReserves: Number(token.virtualSolReserves),
+      virtualTokenReserves: Number(token.virtualTokenReserves),
+      realSolReserves: Number(token.realSolReserves),
+      realTokenReserves: Number(token.realTokenReserves)
     }
-
-    return currentSupply * this.calculatePrice(currentSupply)
   }
 
   /**
-   * Get bonding curve progress (0-100%)
+   * Check whether the curve has sold all of its real tokens
    */
-  static getProgress(currentSupply: number): number {
-    return Math.min(100, (currentSupply / this.TARGET_SUPPLY) * 100)
+  static isComplete(reserves: CurveReserves): boolean {
+    return reserves.realTokenReserves <= 0
   }
 
   /**
    * Check if token is ready to graduate
    */
-  static shouldGraduate(currentSupply: number, marketCap: number): boolean {
-    return currentSupply >= this.TARGET_SUPPLY || marketCap >= this.GRADUATION_MARKET_CAP
+  static shouldGraduate(reserves: CurveReserves, marketCap: number): boolean {
+    return this.isComplete(reserves) || marketCap >= this.GRADUATION_MARKET_CAP
   }
+}
+
+/**
+ * What trading and the mint account say about a token. Shares are percentages;
+ * null means there is not enough activity to measure.
+ */
+export interface OnChainSignals {
+  top10HolderShare: number | null     // Of total supply, held by the 10 largest holders
+  creatorShare: number | null         // Of total supply, held by the creator
+  creatorSoldShare: number | null     // Of what the creator bought, sold since
+  recentSellShare: number | null      // Of the last 24h SOL volume, from sells
+  recentTrades: number
+  earlyBuyerDumpShare: number | null  // Of what the first buyers bought, sold within an hour of buying
+  mintAuthority?: string | null       // Undefined when the mint could not be read
+  freezeAuthority?: string | null
+}
+
+/**
+ * How a creator's other launches went; see src/lib/creatorReputation.ts.
+ * Scores run from 0 to 100 (best); null when the creator has no other launches.
+ */
+export interface CreatorReputation {
+  score: number | null
+  level: string
+  tokensLaunched: number
+}
+
+export class RugDetector {
+  // Risk bands from safest to riskiest, as returned by getRiskLevel
+  static readonly RISK_LEVELS = ['VERY_LOW', 'LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH', 'EXTREME']
 
   /**
-   * Calculate buy/sell fees
+   * Analyze token for rug pull indicators. Scores every rule the token
+   * carries data for; see getBreakdown for what each rule contributed.
    */
-  static calculateFees(solAmount: number, isBuy: boolean = true) {
-    const buyFeeRate = 0.01 // 1%
-    const sellFeeRate = 0.05 // 5%
-    
-    const feeRate = isBuy ? buyFeeRate : sellFeeRate
-    const feeAmount = solAmount * feeRate
-    const netAmount = isBuy ? solAmount : solAmount - feeAmount
-    
-    return {
-      feeAmount,
-      netAmount,
-      feeRate: feeRate * 100 // Return as percentage
-    }
+  static analyzeToken(token: any, weights?: RuleWeights, creator?: CreatorReputation): number {
+    return evaluateRules({ token, creator }, weights).score
   }
-}
 
-export class RugDetector {
   /**
-   * Analyze token for rug pull indicators
+   * Per-rule contributions behind a score, adding up to it. On-chain rules
+   * only apply once `signals` have been collected, the creator rule once
+   * the creator's reputation has been.
    */
-  static analyzeToken(token: any): number {
-    let rugScore = 0
-    
-    // Creator address validation (20 points)
-    if (!token.creatorAddress) rugScore += 20
-    else {
-      // Check if creator address looks suspicious (starts with 1111, etc.)
-      if (token.creatorAddress.startsWith('1111')) rugScore += 10
-    }
-    
-    // Social presence validation (15 points)
-    const socialLinks = [token.website, token.twitter, token.telegram].filter(Boolean)
-    if (socialLinks.length === 0) rugScore += 15
-    else if (socialLinks.length === 1) rugScore += 10
-    else if (socialLinks.length === 2) rugScore += 5
-    
-    // Description quality (15 points)
-    if (!token.description) rugScore += 15
-    else if (token.description.length < 20) rugScore += 10
-    else if (token.description.length < 50) rugScore += 5
-    
-    // Image presence (10 points)
-    if (!token.imageUrl) rugScore += 10
-    
-    // Banner presence (5 points)
-    if (!token.bannerUrl) rugScore += 5
-    
-    // Name/Symbol quality (10 points)
-    if (!token.name || token.name.length < 3) rugScore += 5
-    if (!token.symbol || token.symbol.length < 2) rugScore += 5
-    
-    // Check for generic/suspicious names (10 points)
-    const suspiciousPatterns = ['test', '123', 'temp', 'sample', 'xxx']
-    const nameToCheck = (token.name + ' ' + token.symbol).toLowerCase()
-    if (suspiciousPatterns.some(pattern => nameToCheck.includes(pattern))) {
-      rugScore += 10
+  static getBreakdown(token: any, signals?: OnChainSignals, weights?: RuleWeights, creator?: CreatorReputation) {
+    const { score, contributions } = evaluateRules({ token, signals, creator }, weights)
+    const subtotal = (source: RuleContribution['source']) => Math.round(
+      contributions.filter((rule) => rule.source === source).reduce((sum, rule) => sum + rule.points, 0) * 100
+    ) / 100
+
+    return {
+      score,
+      riskLevel: this.getRiskLevel(score),
+      listingScore: subtotal('listing'),
+      onChainScore: subtotal('onChain'),
+      creatorScore: subtotal('creator'),
+      contributions
     }
-    
-    // Token economics validation (15 points)
-    if (token.totalSupply && token.totalSupply > 1_000_000_000_000) rugScore += 10 // Too many tokens
-    if (!token.initialBuy || token.initialBuy === 0) rugScore += 5 // No initial buy
-    
-    return Math.min(rugScore, 100)
   }
   
   /**
@@ -195,22 +151,19 @@ export class RugDetector {
   }
 
   /**
-   * Get detailed risk analysis
+   * Get detailed risk analysis. Issues are the rules that added points, so
+   * they always match the score.
    */
-  static getDetailedAnalysis(token: any) {
-    const score = this.analyzeToken(token)
-    const riskLevel = this.getRiskLevel(score)
+  static getDetailedAnalysis(token: any, signals?: OnChainSignals, weights?: RuleWeights, creator?: CreatorReputation) {
+    const breakdown = this.getBreakdown(token, signals, weights, creator)
+    const riskLevel = breakdown.riskLevel
     
-    const issues = []
+    const issues = breakdown.contributions
+      .filter((rule) => rule.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map((rule) => rule.description)
     const positives = []
     
-    // Check each factor
-    if (!token.creatorAddress) issues.push('No creator address provided')
-    if (!token.website && !token.twitter && !token.telegram) issues.push('No social media presence')
-    if (!token.description || token.description.length < 50) issues.push('Poor or missing description')
-    if (!token.imageUrl) issues.push('No token image')
-    if (!token.bannerUrl) issues.push('No banner image')
-    
     // Positives
     if (token.website) positives.push('Has website')
     if (token.twitter) positives.push('Has Twitter/X')
@@ -218,17 +171,40 @@ export class RugDetector {
     if (token.description && token.description.length >= 100) positives.push('Detailed description')
     if (token.imageUrl) positives.push('Has token image')
     if (token.bannerUrl) positives.push('Has banner image')
+    const mintAuthority = signals?.mintAuthority !== undefined ? signals.mintAuthority : token.mintAuthority
+    const freezeAuthority = signals?.freezeAuthority !== undefined ? signals.freezeAuthority : token.freezeAuthority
+    if (mintAuthority === null && freezeAuthority === null) positives.push('Mint and freeze authorities revoked')
+    if (creator?.score != null && creator.score >= 80) positives.push('Creator has a good track record')
     
     return {
-      score,
+      score: breakdown.score,
+      listingScore: breakdown.listingScore,
+      onChainScore: breakdown.onChainScore,
+      creatorScore: breakdown.creatorScore,
       riskLevel,
       color: this.getRiskColor(riskLevel),
       issues,
       positives,
+      contributions: breakdown.contributions,
       recommendation: this.getRecommendation(riskLevel)
     }
   }
 
+  /**
+   * Score on-chain behaviour on the same 0-100 scale as analyzeToken.
+   * Every on-chain rule is listed as a factor, with 0 points when it looks healthy.
+   */
+  static analyzeOnChain(signals: OnChainSignals, weights?: RuleWeights) {
+    const onChainRules = RUG_RULES.filter((rule) => rule.source === 'onChain')
+    const { score, contributions } = evaluateRules({ token: {}, signals }, weights, onChainRules)
+    
+    return {
+      score,
+      riskLevel: this.getRiskLevel(score),
+      factors: contributions
+    }
+  }
+
   /**
    * Get trading recommendation based on risk level
    */
@@ -0,0 +1,257 @@
+import { createHash, createHmac } from 'crypto'
+import { access, mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * `images/<sha256>.png`; every backend serves a key at a stable public URL.
+ */
+export interface ObjectStorage {
+  readonly name: string
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  exists(key: string): Promise<boolean>
+  urlFor(key: string): string
+  /** The key behind one of this backend's URLs, or null for any other URL */
+  keyFromUrl(url: string): string | null
+}
+
+// Keys are content hashes, so a stored object never changes
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+function sha256(data: Buffer | string) {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function isSafeKey(key: string) {
+  return key.length > 0 && !key.split('/').some((part) => part === '' || part === '.' || part === '..')
+}
+
+/**
+ * Files under public/uploads, served by Next.js at /uploads
+ */
+export class LocalStorage implements ObjectStorage {
+  readonly name = 'local'
+
+  constructor(
+    private readonly root: string = path.join(process.cwd(), 'public', 'uploads'),
+    private readonly baseUrl: string = '/uploads'
+  ) {}
+
+  private pathFor(key: string) {
+    if (!isSafeKey(key)) throw new Error(`Invalid storage key: ${key}`)
+    return path.join(this.root, ...key.split('/'))
+  }
+
+  async put(key: string, body: Buffer) {
+    const filePath = this.pathFor(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, body)
+  }
+
+  async exists(key: string) {
+    try {
+      await access(this.pathFor(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  urlFor(key: string) {
+    return `${this.baseUrl}/${key}`
+  }
+
+  keyFromUrl(url: string) {
+    if (!url.startsWith(`${this.baseUrl}/`)) return null
+    const key = url.slice(this.baseUrl.length + 1).split(/[?#]/)[0]
+    return isSafeKey(key) ? key : null
+  }
+}
+
+export interface S3Config {
+  endpoint: string      // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  publicUrl?: string    // CDN or bucket website URL; defaults to the path-style bucket URL
+}
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, R2...), addressed path-style
+ * and signed with AWS Signature Version 4
+ */
+export class S3Storage implements ObjectStorage {
+  readonly name = 's3'
+  private readonly endpoint: string
+  private readonly publicUrl: string
+
+  constructor(private readonly config: S3Config) {
+    this.endpoint = config.endpoint.replace(/\/+$/, '')
+    this.publicUrl = (config.publicUrl || `${this.endpoint}/${config.bucket}`).replace(/\/+$/, '')
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    const response = await this.send('PUT', key, body, {
+      'content-type': contentType,
+      'cache-control': IMMUTABLE_CACHE_CONTROL
+    })
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`)
+    }
+  }
+
+  async exists(key: string) {
+    const response = await this.send('HEAD', key)
+    if (response.status === 404) return false
+    if (!response.ok) throw new Error(`S3 lookup of ${key} failed: ${response.status}`)
+    return true
+  }
+
+  urlFor(key: string) {
+    return `${this.publicUrl}/${key}`
+  }
+
+  keyFromUrl(url: string) {
+    if (!url.startsWith(`${this.publicUrl}/`)) return null
+    const key = url.slice(this.publicUrl.length + 1).split(/[?#]/)[0]
+    return isSafeKey(key) ? key : null
+  }
+
+  private send(method: 'PUT' | 'HEAD', key: string, body?: Buffer, extraHeaders: Record<string, string> = {}) {
+    if (!isSafeKey(key)) throw new Error(`Invalid storage key: ${key}`)
+
+    const url = new URL(`${this.endpoint}/${this.config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`)
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '')
+    const date = amzDate.slice(0, 8)
+    const payloadHash = sha256(body || '')
+
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    }
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n')
+
+    const scope = `${date}/${this.config.region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    const signingKey = [date, this.config.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      `AWS4${this.config.secretAccessKey}`
+    )
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+    // fetch sets Host itself from the URL
+    const { host, ...requestHeaders } = headers
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    })
+  }
+}
+
+let storage: ObjectStorage | null = null
+
+/**
+ * The configured storage backend: STORAGE_DRIVER=s3 with the S3_* variables,
+ * otherwise the local filesystem
+ */
+export function getStorage(): ObjectStorage {
+  if (storage) return storage
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for STORAGE_DRIVER=s3')
+    }
+    storage = new S3Storage({
+      endpoint: S3_ENDPOINT,
+      bucket: S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      publicUrl: process.env.S3_PUBLIC_URL
+    })
+  } else {
+    storage = new LocalStorage()
+  }
+
+  return storage
+}
+
+// Stored objects never change or disappear, so a key seen once needs no further lookups
+const knownObjects = new Set<string>()
+
+/**
+ * Store a file at `key` unless it is already there. Only for keys that
+ * identify their content, since an existing object is never overwritten.
+ */
+export async function storeObject(key: string, body: Buffer, contentType: string): Promise<{ url: string; existed: boolean }> {
+  const store = getStorage()
+
+  const existed = knownObjects.has(key) || await store.exists(key)
+  if (!existed) await store.put(key, body, contentType)
+  knownObjects.add(key)
+
+  return { url: store.urlFor(key), existed }
+}
+
+/**
+ * Store a file under a key derived from its content, so the same bytes are
+ * only ever stored once. Returns the key and its public URL.
+ */
+export async function storeContent(
+  body: Buffer,
+  contentType: string,
+  extension: string,
+  prefix: string = 'images'
+): Promise<{ key: string; url: string; existed: boolean }> {
+  const key = `${prefix}/${sha256(body)}.${extension}`
+  return { key, ...await storeObject(key, body, contentType) }
+}
+
+/**
+ * A stored file's URL as seen from outside the app, e.g. by wallets reading
+ * token metadata. Local uploads are served relative to NEXT_PUBLIC_APP_URL.
+ */
+export function absoluteUrl(url: string): string {
+  return new URL(url, process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').toString()
+}
+
+/**
+ * Whether a URL points at a file in our storage
+ */
+export function isStoredUrl(url: string): boolean {
+  return getStorage().keyFromUrl(url) !== null
+}
+
+/**
+ * Whether the file behind one of our storage URLs is actually there
+ */
+export async function storedUrlExists(url: string): Promise<boolean> {
+  const key = getStorage().keyFromUrl(url)
+  if (!key) return false
+  if (knownObjects.has(key)) return true
+
+  try {
+    const exists = await getStorage().exists(key)
+    if (exists) knownObjects.add(key)
+    return exists
+  } catch (error) {
+    console.warn('Error checking stored file:', error)
+    return false
+  }
+}
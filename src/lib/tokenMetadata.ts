@@ -0,0 +1,88 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js'
+import { createNoopSigner } from '@metaplex-foundation/umi'
+import { createUmi } from '@metaplex-foundation/umi-bundle-defaults'
+import { createMetadataAccountV3, findMetadataPda, mplTokenMetadata } from '@metaplex-foundation/mpl-token-metadata'
+import { fromWeb3JsPublicKey, toWeb3JsInstruction, toWeb3JsPublicKey } from '@metaplex-foundation/umi-web3js-adapters'
+import { connection } from '@/lib/solana'
+import { getPayerKeypair } from '@/lib/treasury'
+
+/**
+ * Byte limits the Token Metadata program enforces on a metadata account
+ */
+export const METADATA_LIMITS = {
+  name: 32,
+  symbol: 10,
+  uri: 200
+}
+
+// Bytes the program allocates for every metadata account, whatever its contents
+export const METADATA_ACCOUNT_SIZE = 679
+
+// Only used to build instructions; transactions are still signed and sent with web3.js
+const umi = createUmi(connection).use(mplTokenMetadata())
+
+/**
+ * Key allowed to update token metadata: METADATA_UPDATE_AUTHORITY when set,
+ * otherwise the treasury
+ */
+export function getMetadataUpdateAuthority(): PublicKey {
+  const configured = process.env.METADATA_UPDATE_AUTHORITY
+  return configured ? new PublicKey(configured) : getPayerKeypair().publicKey
+}
+
+/**
+ * Address of a mint's metadata account
+ */
+export function findMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = findMetadataPda(umi, { mint: fromWeb3JsPublicKey(mint) })
+  return toWeb3JsPublicKey(address)
+}
+
+/**
+ * Instructions creating the metadata account for a new mint, so wallets and
+ * explorers show its name, symbol and image. `mintAuthority` and `payer`
+ * must sign the transaction these are added to.
+ */
+export function createMetadataInstructions({
+  mint,
+  mintAuthority,
+  payer,
+  updateAuthority,
+  name,
+  symbol,
+  uri
+}: {
+  mint: PublicKey
+  mintAuthority: PublicKey
+  payer: PublicKey
+  updateAuthority: PublicKey
+  name: string
+  symbol: string
+  uri: string
+}): TransactionInstruction[] {
+  for (const [field, value] of Object.entries({ name, symbol, uri }) as [keyof typeof METADATA_LIMITS, string][]) {
+    if (Buffer.byteLength(value) > METADATA_LIMITS[field]) {
+      throw new Error(`Metadata ${field} is longer than ${METADATA_LIMITS[field]} bytes`)
+    }
+  }
+
+  return createMetadataAccountV3(umi, {
+    mint: fromWeb3JsPublicKey(mint),
+    mintAuthority: createNoopSigner(fromWeb3JsPublicKey(mintAuthority)),
+    payer: createNoopSigner(fromWeb3JsPublicKey(payer)),
+    updateAuthority: fromWeb3JsPublicKey(updateAuthority),
+    data: {
+      name,
+      symbol,
+      uri,
+      sellerFeeBasisPoints: 0,
+      creators: null,
+      collection: null,
+      uses: null
+    },
+    isMutable: true,
+    collectionDetails: null
+  })
+    .getInstructions()
+    .map(toWeb3JsInstruction)
+}
@@ -0,0 +1,512 @@
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+  ParsedInstruction,
+  ParsedTransactionWithMeta
+} from '@solana/web3.js'
+import {
+  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToInstruction,
+  createBurnInstruction,
+  createTransferCheckedInstruction
+} from '@solana/spl-token'
+import { prisma } from '@/lib/database'
+import { BondingCurve, connection } from '@/lib/solana'
+import { quoteTrade } from '@/lib/quotes'
+import { FeeEngine, getFeeSchedule } from '@/lib/fees'
+import { Ledger } from '@/lib/ledger'
+import { getPayerKeypair } from '@/lib/treasury'
+
+export const TOKEN_DECIMALS = 9
+
+/**
+ * Convert a whole-token amount into base units for SPL instructions. Fractions
+ * are refused rather than rounded, so a trade can never price more than it moves.
+ */
+export function toRawTokenAmount(amount: number): bigint {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Token amount ${amount} is not a whole number of tokens`)
+  }
+  return BigInt(amount) * BigInt(10) ** BigInt(TOKEN_DECIMALS)
+}
+
+/**
+ * Convert a SOL amount into lamports
+ */
+export function toLamports(solAmount: number): number {
+  return Math.round(solAmount * LAMPORTS_PER_SOL)
+}
+
+/**
+ * Token account holding a curve's unsold supply: the treasury's ATA for the mint.
+ * The whole supply is minted into it at launch, before mint authority is revoked.
+ */
+export function getCurveVaultAddress(mint: PublicKey, treasury: PublicKey): Promise<PublicKey> {
+  return getAssociatedTokenAddress(mint, treasury)
+}
+
+/**
+ * A token's curve vault. Tokens launched before supply was minted up front
+ * recorded the mint itself as their curve address and have no vault; the
+ * treasury still mints and burns their tokens.
+ */
+export function curveVaultOf(token: { tokenAddress: string; bondingCurveAddress: string | null }): PublicKey | undefined {
+  if (!token.bondingCurveAddress || token.bondingCurveAddress === token.tokenAddress) return undefined
+  return new PublicKey(token.bondingCurveAddress)
+}
+
+interface BuyTransactionParams {
+  treasury: Keypair
+  buyer: PublicKey
+  mint: PublicKey
+  solAmount: number
+  tokenAmount: number
+  vault?: PublicKey
+}
+
+interface SellTransactionParams {
+  treasury: Keypair
+  seller: PublicKey
+  mint: PublicKey
+  tokenAmount: number
+  solAmount: number
+  vault?: PublicKey
+}
+
+export interface PreparedTrade {
+  transaction: Transaction
+  blockhash: string
+  lastValidBlockHeight: number
+}
+
+/**
+ * Build a buy: the buyer pays SOL into the treasury and the treasury sends
+ * the purchased tokens from the curve vault to the buyer's ATA (or, for
+ * tokens without a vault, mints them as mint authority).
+ * The treasury signature is applied here; the buyer signs in their wallet.
+ */
+export async function buildBuyTransaction({
+  treasury,
+  buyer,
+  mint,
+  solAmount,
+  tokenAmount,
+  vault
+}: BuyTransactionParams): Promise<PreparedTrade> {
+  const buyerTokenAccount = await getAssociatedTokenAddress(mint, buyer)
+  const transaction = new Transaction()
+
+  transaction.add(
+    createAssociatedTokenAccountIdempotentInstruction(
+      buyer,
+      buyerTokenAccount,
+      buyer,
+      mint
+    )
+  )
+
+  transaction.add(
+    SystemProgram.transfer({
+      fromPubkey: buyer,
+      toPubkey: treasury.publicKey,
+      lamports: toLamports(solAmount)
+    })
+  )
+
+  transaction.add(
+    vault
+      ? createTransferCheckedInstruction(
+        vault,
+        mint,
+        buyerTokenAccount,
+        treasury.publicKey,
+        toRawTokenAmount(tokenAmount),
+        TOKEN_DECIMALS
+      )
+      : createMintToInstruction(
+        mint,
+        buyerTokenAccount,
+        treasury.publicKey,
+        toRawTokenAmount(tokenAmount)
+      )
+  )
+
+  return finalizeForWallet(transaction, buyer, treasury)
+}
+
+/**
+ * Build a sell: the seller returns tokens from their ATA to the curve vault
+ * (or burns them, for tokens without a vault) and the treasury pays out the
+ * SOL proceeds (after fees) to the seller.
+ */
+export async function buildSellTransaction({
+  treasury,
+  seller,
+  mint,
+  tokenAmount,
+  solAmount,
+  vault
+}: SellTransactionParams): Promise<PreparedTrade> {
+  const sellerTokenAccount = await getAssociatedTokenAddress(mint, seller)
+  const transaction = new Transaction()
+
+  transaction.add(
+    vault
+      ? createTransferCheckedInstruction(
+        sellerTokenAccount,
+        mint,
+        vault,
+        seller,
+        toRawTokenAmount(tokenAmount),
+        TOKEN_DECIMALS
+      )
+      : createBurnInstruction(
+        sellerTokenAccount,
+        mint,
+        seller,
+        toRawTokenAmount(tokenAmount)
+      )
+  )
+
+  transaction.add(
+    SystemProgram.transfer({
+      fromPubkey: treasury.publicKey,
+      toPubkey: seller,
+      lamports: toLamports(solAmount)
+    })
+  )
+
+  return finalizeForWallet(transaction, seller, treasury)
+}
+
+async function finalizeForWallet(
+  transaction: Transaction,
+  user: PublicKey,
+  treasury: Keypair
+): Promise<PreparedTrade> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed')
+
+  transaction.feePayer = user
+  transaction.recentBlockhash = blockhash
+  transaction.partialSign(treasury)
+
+  return { transaction, blockhash, lastValidBlockHeight }
+}
+
+/**
+ * Serialize a partially-signed transaction so the wallet can add its signature
+ */
+export function serializeForWallet(transaction: Transaction): string {
+  return transaction
+    .serialize({ requireAllSignatures: false, verifySignatures: false })
+    .toString('base64')
+}
+
+/**
+ * Serialized message bytes used to check a signed transaction against its intent
+ */
+export function serializeMessage(transaction: Transaction): string {
+  return transaction.serializeMessage().toString('base64')
+}
+
+/**
+ * Lock a token row for the rest of the surrounding transaction so concurrent
+ * trades on the same token settle one after another
+ */
+async function lockToken(tx: any, tokenId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "tokens" WHERE "id" = ${tokenId} FOR UPDATE`
+
+  return tx.token.findUnique({
+    where: { id: tokenId }
+  })
+}
+
+// Re-price an intent against a locked token row
+async function repriceLocked(tx: any, token: any, intent: any) {
+  const isBuy = intent.type === 'BUY'
+
+  // Exact-input trades fix what is paid and requote what is received;
+  // exact-output trades fix what is received and requote what must be paid
+  const fixed = isBuy === intent.exactOut ? intent.amount : intent.solAmount
+  const quoted = isBuy === intent.exactOut ? intent.solAmount : intent.amount
+  const rates = await getFeeSchedule(token.id, tx)
+  const fresh = quoteTrade(token, intent.type, fixed, intent.slippage, rates, intent.exactOut)
+  const freshAmount = intent.exactOut ? fresh.inputAmount : fresh.outputAmount
+  const price = fresh.currentPrice
+
+  const deviation = quoted > 0 ? (Math.abs(freshAmount - quoted) / quoted) * 100 : 0
+
+  return {
+    moved: deviation > intent.slippage,
+    deviation,
+    requote: isBuy
+      ? { solAmount: fresh.inputAmount, tokenAmount: fresh.outputAmount, price }
+      : { tokenAmount: fresh.inputAmount, solAmount: fresh.outputAmount, price }
+  }
+}
+
+/**
+ * Re-price a quoted trade against the token's current locked state.
+ * `moved` is set when the fresh quote differs from the quoted one by more
+ * than the slippage the user accepted, in which case the trade must not be sent.
+ */
+export async function requoteTrade(intent: any) {
+  return prisma.$transaction(async (tx: any) => {
+    const token = await lockToken(tx, intent.tokenId)
+
+    if (!token) {
+      throw new Error('Token not found')
+    }
+
+    return repriceLocked(tx, token, intent)
+  })
+}
+
+/**
+ * How far a landed fill is from what the locked curve gives now, or null
+ * when it is within the intent's slippage. The treasury signs trades before
+ * the wallet does, so a wallet can send one itself after the price moved, or
+ * after submit declined to send it.
+ */
+async function fillDeviation(tx: any, token: any, intent: any): Promise<string | null> {
+  if (intent.status === 'EXPIRED') {
+    return `Sent after it expired: ${intent.error || 'quote expired'}`
+  }
+
+  try {
+    const { moved, deviation } = await repriceLocked(tx, token, intent)
+    return moved
+      ? `Settled ${deviation.toFixed(2)}% away from the locked curve, past slippage tolerance ${intent.slippage}%`
+      : null
+  } catch (error) {
+    return `Could not be repriced: ${error instanceof Error ? error.message : 'unknown error'}`
+  }
+}
+
+/**
+ * Record a confirmed trade. Everything happens in one database transaction
+ * holding the token row lock: the trade, supply, fee splits, ledger journals,
+ * graduation flag and a price point are written together. The fill has
+ * already moved on chain, so it is applied as it happened and the reserves
+ * keep following the vault and treasury; a fill past its slippage against the
+ * locked curve is noted on the intent.
+ */
+export async function settleTrade(intent: any, signature: string) {
+  const result = await prisma.$transaction(async (tx: any) => {
+    const token = await lockToken(tx, intent.tokenId)
+
+    if (!token) {
+      throw new Error('Token not found')
+    }
+
+    const deviation = await fillDeviation(tx, token, intent)
+
+    const isBuy = intent.type === 'BUY'
+    const currentSupply = Number(token.currentSupply)
+    const newSupply = isBuy
+      ? currentSupply + intent.amount
+      : Math.max(0, currentSupply - intent.amount)
+    // Buys put the SOL paid minus fees into the curve; sells take out the gross amount before fees
+    const curve = BondingCurve.forToken(token)
+    const reserves = BondingCurve.reservesOf(token)
+    const newReserves = isBuy
+      ? curve.applyBuy(reserves, intent.solAmount - intent.feeAmount, intent.amount)
+      : curve.applySell(reserves, intent.amount, intent.solAmount + intent.feeAmount)
+    const newPrice = curve.priceAt(newReserves)
+    const newMarketCap = curve.marketCapAt(newReserves)
+    const graduates = isBuy && !token.isGraduated &&
+      BondingCurve.shouldGraduate(newReserves, newMarketCap)
+
+    // Signatures are unique, so a replayed signature aborts the whole settlement
+    const transactionRecord = await tx.transaction.create({
+      data: {
+        tokenId: token.id,
+        userAddress: intent.userAddress,
+        type: intent.type,
+        amount: intent.amount,
+        solAmount: intent.solAmount,
+        price: intent.price,
+        signature
+      }
+    })
+
+    const updatedToken = await tx.token.update({
+      where: { id: token.id },
+      data: {
+        ...newReserves,
+        currentSupply: newSupply,
+        price: newPrice,
+        marketCap: newMarketCap,
+        peakMarketCap: Math.max(Number(token.peakMarketCap), newMarketCap),
+        ...(graduates ? { isGraduated: true, graduatedAt: new Date() } : {})
+      }
+    })
+
+    await FeeEngine.recordSplits(tx, {
+      token,
+      transactionId: transactionRecord.id,
+      signature,
+      tradeType: intent.type,
+      split: {
+        platform: intent.platformFee,
+        creator: intent.creatorFee,
+        referrer: intent.referrerFee
+      },
+      platformAddress: getPayerKeypair().publicKey.toBase58(),
+      referrerAddress: intent.referrerAddress
+    })
+
+    await Ledger.recordTrade(tx, intent, signature)
+
+    if (graduates) {
+      await Ledger.recordGraduation(tx, token.id, newReserves.realSolReserves, signature)
+    }
+
+    await tx.priceHistory.create({
+      data: {
+        tokenId: token.id,
+        price: newPrice.toString(),
+        volume: (isBuy ? intent.solAmount : intent.solAmount + intent.feeAmount).toString()
+      }
+    })
+
+    await tx.tradeIntent.update({
+      where: { id: intent.id },
+      data: { status: 'CONFIRMED', signature, error: deviation }
+    })
+
+    return {
+      deviation,
+      token: updatedToken,
+      transaction: transactionRecord,
+      newPrice,
+      newMarketCap,
+      newSupply,
+      reserves: newReserves,
+      graduated: graduates
+    }
+  })
+
+  if (result.deviation) {
+    console.warn(`Trade ${intent.id} settled outside its quote: ${result.deviation}`)
+  }
+
+  return result
+}
+
+// Attempts at settling a trade that landed before it is left to /confirm
+const SETTLE_ATTEMPTS = 3
+const SETTLE_RETRY_MS = 500
+
+/**
+ * settleTrade, retried while the database fails. A signature that is
+ * already recorded is final and thrown at once.
+ */
+export async function settleTradeWithRetry(intent: any, signature: string) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await settleTrade(intent, signature)
+    } catch (error) {
+      if ((error as any)?.code === 'P2002' || attempt >= SETTLE_ATTEMPTS) {
+        throw error
+      }
+      console.warn(`Settling trade ${intent.id} failed (attempt ${attempt} of ${SETTLE_ATTEMPTS}):`, error)
+      await new Promise(resolve => setTimeout(resolve, SETTLE_RETRY_MS * attempt))
+    }
+  }
+}
+
+const BUY_TOKEN_INSTRUCTIONS = ['mintTo', 'mintToChecked', 'transfer', 'transferChecked']
+const SELL_TOKEN_INSTRUCTIONS = ['burn', 'burnChecked', 'transfer', 'transferChecked']
+// Supply is fixed once a token has a vault, so tokens can only move in and out of it
+const VAULT_TOKEN_INSTRUCTIONS = ['transfer', 'transferChecked']
+
+function parsedTokenAmount(info: any): string {
+  return String(info.tokenAmount?.amount ?? info.amount)
+}
+
+/**
+ * Compare a confirmed on-chain transaction against the trade it claims to settle.
+ * Returns a list of mismatches; an empty list means the SOL leg and token leg
+ * both moved the quoted amounts between the user and the bonding curve.
+ * With a `vault`, the token leg must be a transfer to or from it.
+ */
+export async function findTradeMismatches(
+  parsed: ParsedTransactionWithMeta,
+  intent: any,
+  mint: PublicKey,
+  curveReserve: PublicKey,
+  vault?: PublicKey
+): Promise<string[]> {
+  const mismatches: string[] = []
+  const isBuy = intent.type === 'BUY'
+  const user = new PublicKey(intent.userAddress)
+  const userTokenAccount = (await getAssociatedTokenAddress(mint, user)).toBase58()
+
+  const signer = parsed.transaction.message.accountKeys.find(
+    (account) => account.pubkey.equals(user)
+  )
+  if (!signer?.signer) {
+    mismatches.push('Trade was not signed by the quoted wallet')
+  }
+
+  // The treasury signed the quoted message, so the trade it built carries the quoted blockhash
+  if (parsed.transaction.message.recentBlockhash !== intent.blockhash) {
+    mismatches.push('Transaction was not built from the quoted trade')
+  }
+
+  const instructions = parsed.transaction.message.instructions.filter(
+    (ix): ix is ParsedInstruction => 'parsed' in ix
+  )
+
+  // SOL leg: buyer pays the curve, or the curve pays the seller
+  const expectedSource = isBuy ? user.toBase58() : curveReserve.toBase58()
+  const expectedDestination = isBuy ? curveReserve.toBase58() : user.toBase58()
+  const solTransfer = instructions.find(
+    (ix) =>
+      ix.program === 'system' &&
+      ix.parsed?.type === 'transfer' &&
+      ix.parsed.info.source === expectedSource &&
+      ix.parsed.info.destination === expectedDestination
+  )
+
+  if (!solTransfer) {
+    mismatches.push('No SOL transfer between the wallet and the bonding curve')
+  } else if (Number(solTransfer.parsed.info.lamports) !== toLamports(intent.solAmount)) {
+    mismatches.push(
+      `SOL amount ${solTransfer.parsed.info.lamports} lamports does not match quoted ${toLamports(intent.solAmount)}`
+    )
+  }
+
+  // Token leg: tokens reach the buyer's ATA, or leave the seller's ATA
+  const allowedTypes = vault ? VAULT_TOKEN_INSTRUCTIONS : isBuy ? BUY_TOKEN_INSTRUCTIONS : SELL_TOKEN_INSTRUCTIONS
+  const tokenInstruction = instructions.find((ix) => {
+    if (ix.program !== 'spl-token' || !allowedTypes.includes(ix.parsed?.type)) return false
+    const info = ix.parsed.info
+    const userSide = isBuy ? (info.account ?? info.destination) : (info.account ?? info.source)
+    const curveSide = isBuy ? info.source : info.destination
+    return userSide === userTokenAccount && (!vault || curveSide === vault.toBase58())
+  })
+
+  if (!tokenInstruction) {
+    mismatches.push('No token movement for the wallet\'s token account')
+  } else {
+    const info = tokenInstruction.parsed.info
+    if (info.mint && info.mint !== mint.toBase58()) {
+      mismatches.push(`Token mint ${info.mint} does not match ${mint.toBase58()}`)
+    }
+    // Intents quoted before fractions were refused can never match a whole-token transfer
+    const expectedRaw = Number.isInteger(intent.amount) ? toRawTokenAmount(intent.amount).toString() : null
+    if (expectedRaw === null) {
+      mismatches.push(`Quoted token amount ${intent.amount} is not a whole number of tokens`)
+    } else if (parsedTokenAmount(info) !== expectedRaw) {
+      mismatches.push(`Token amount ${parsedTokenAmount(info)} does not match quoted ${expectedRaw}`)
+    }
+  }
+
+  return mismatches
+}
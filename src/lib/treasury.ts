@@ -0,0 +1,20 @@
+import { Keypair } from '@solana/web3.js'
+
+/**
+ * Load the platform treasury keypair from the environment.
+ * The treasury pays mint rent, holds trade proceeds and co-signs
+ * the server-side half of every trade transaction.
+ */
+export function getPayerKeypair(): Keypair {
+  const privateKeyString = process.env.SOLANA_PRIVATE_KEY
+  if (!privateKeyString) {
+    throw new Error('SOLANA_PRIVATE_KEY environment variable is required')
+  }
+
+  try {
+    const privateKey = new Uint8Array(JSON.parse(privateKeyString))
+    return Keypair.fromSecretKey(privateKey)
+  } catch (error) {
+    throw new Error('Invalid SOLANA_PRIVATE_KEY format. Must be a JSON array of numbers.')
+  }
+}
@@ -0,0 +1,142 @@
+import { TokenUtils } from '@/lib/solana'
+import { FieldErrors } from '@/lib/errors'
+
+class FieldError extends Error {}
+
+/**
+ * A declarative field rule. `parse` returns the cleaned value or throws a
+ * FieldError whose message is shown next to the field.
+ */
+export class Field<T> {
+  constructor(private readonly check: (value: unknown) => T) {}
+
+  parse(value: unknown): T {
+    if (value === undefined || value === null || value === '') {
+      throw new FieldError('Required')
+    }
+    return this.check(value)
+  }
+
+  optional(): Field<T | undefined> {
+    return new OptionalField<T | undefined>((value) => this.check(value), undefined)
+  }
+
+  default(fallback: T): Field<T> {
+    return new OptionalField<T>((value) => this.check(value), fallback)
+  }
+
+  refine(predicate: (value: T) => boolean, message: string): Field<T> {
+    return new Field<T>((value) => {
+      const parsed = this.check(value)
+      if (!predicate(parsed)) throw new FieldError(message)
+      return parsed
+    })
+  }
+}
+
+class OptionalField<T> extends Field<T> {
+  constructor(check: (value: unknown) => T, private readonly fallback: T) {
+    super(check)
+  }
+
+  parse(value: unknown): T {
+    if (value === undefined || value === null || value === '') return this.fallback
+    return super.parse(value)
+  }
+}
+
+export type Schema = Record<string, Field<any>>
+
+export type Infer<S extends Schema> = { [K in keyof S]: S[K] extends Field<infer T> ? T : never }
+
+export const v = {
+  string: ({ min, max, pattern, message }: { min?: number; max?: number; pattern?: RegExp; message?: string } = {}) =>
+    new Field<string>((value) => {
+      if (typeof value !== 'string') throw new FieldError('Must be text')
+      const text = value.trim()
+      if (min !== undefined && text.length < min) throw new FieldError(`Must be at least ${min} characters`)
+      if (max !== undefined && text.length > max) throw new FieldError(`Must be at most ${max} characters`)
+      if (pattern && !pattern.test(text)) throw new FieldError(message || 'Has an invalid format')
+      return text
+    }),
+
+  // Numeric strings are accepted so the same rule works for query parameters
+  number: ({ min, max, gt, integer }: { min?: number; max?: number; gt?: number; integer?: boolean } = {}) =>
+    new Field<number>((value) => {
+      const number = typeof value === 'string' ? Number(value) : value
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw new FieldError('Must be a number')
+      if (integer && !Number.isInteger(number)) throw new FieldError('Must be a whole number')
+      if (gt !== undefined && !(number > gt)) throw new FieldError(`Must be greater than ${gt}`)
+      if (min !== undefined && number < min) throw new FieldError(`Must be at least ${min}`)
+      if (max !== undefined && number > max) throw new FieldError(`Must be at most ${max}`)
+      return number
+    }),
+
+  boolean: () =>
+    new Field<boolean>((value) => {
+      if (typeof value === 'boolean') return value
+      if (value === 'true') return true
+      if (value === 'false') return false
+      throw new FieldError('Must be true or false')
+    }),
+
+  address: () =>
+    new Field<string>((value) => {
+      if (typeof value !== 'string' || !TokenUtils.isValidSolanaAddress(value.trim())) {
+        throw new FieldError('Must be a valid Solana address')
+      }
+      return value.trim()
+    }),
+
+  enum: <T extends string>(values: readonly T[]) =>
+    new Field<T>((value) => {
+      if (!values.includes(value as T)) throw new FieldError(`Must be one of ${values.join(', ')}`)
+      return value as T
+    }),
+
+  url: () =>
+    new Field<string>((value) => {
+      const text = String(value).trim()
+      try {
+        const url = new URL(text)
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error()
+        return text
+      } catch {
+        throw new FieldError('Must be a valid http(s) URL')
+      }
+    }),
+
+  date: () =>
+    new Field<Date>((value) => {
+      const date = new Date(String(value))
+      if (isNaN(date.getTime())) throw new FieldError('Must be a valid date')
+      return date
+    }),
+
+  // Passed through untouched for values another layer validates (e.g. curve params)
+  any: () => new Field<any>((value) => value)
+}
+
+/**
+ * Check an input object against a schema. Unknown keys are dropped.
+ */
+export function validate<S extends Schema>(
+  schema: S,
+  input: Record<string, unknown>
+): { data: Infer<S>; fields: null } | { data: null; fields: FieldErrors } {
+  const data: Record<string, unknown> = {}
+  const fields: FieldErrors = {}
+
+  for (const [key, field] of Object.entries(schema)) {
+    try {
+      data[key] = field.parse(input?.[key])
+    } catch (error) {
+      if (!(error instanceof FieldError)) throw error
+      fields[key] = error.message
+    }
+  }
+
+  return Object.keys(fields).length > 0
+    ? { data: null, fields }
+    : { data: data as Infer<S>, fields: null }
+}
@@ -0,0 +1,34 @@
+import { createPublicKey, verify } from 'crypto'
+import { PublicKey } from '@solana/web3.js'
+
+// DER header that turns a raw 32-byte ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex')
+
+/**
+ * Check an ed25519 signature from a wallet's signMessage over `message`.
+ * The signature is base64 encoded.
+ */
+export function verifyWalletSignature(address: string, message: string, signature: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(address).toBuffer()]),
+      format: 'der',
+      type: 'spki'
+    })
+
+    return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(signature, 'base64'))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a signed message's issue time is recent enough to accept
+ */
+export function isFreshSignature(issuedAt: string, maxAgeMs: number, now: number = Date.now()): boolean {
+  const issued = Date.parse(issuedAt)
+  if (isNaN(issued)) return false
+
+  // Allow a little clock skew for wallets ahead of the server
+  return issued <= now + 60_000 && now - issued <= maxAgeMs
+}
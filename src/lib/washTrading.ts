@@ -0,0 +1,318 @@
+import { prisma } from '@/lib/database'
+
+// Trade flow analyzed: the last day, the same window as volume24h
+export const WASH_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// Two trades are the same size when their token amounts are within this percent of each other
+const SIZE_TOLERANCE = 2
+
+// A wallet selling back what it bought (or buying back what it sold) within this long is a round trip
+const ROUND_TRIP_WINDOW_MS = 15 * 60 * 1000
+
+// A buy and a sell of the same size from different wallets this close together are a matched pair
+const MATCHED_PAIR_WINDOW_MS = 2 * 60 * 1000
+
+// Wallets trade in lockstep when they trade in the same one-minute slots at least
+// LOCKSTEP_MIN_SLOTS times, and those slots are most of the slots either one trades in
+const LOCKSTEP_SLOT_MS = 60 * 1000
+const LOCKSTEP_MIN_SLOTS = 3
+const LOCKSTEP_MIN_OVERLAP = 0.6
+
+// Refresh stored volume figures that are older than this; the 24h window moves even without trades
+export const VOLUME_ANALYSIS_REFRESH_MS = (Number(process.env.VOLUME_ANALYSIS_REFRESH_MINUTES) || 15) * 60 * 1000
+
+// Tokens refreshed per scheduled run
+const SCHEDULED_BATCH_SIZE = 50
+
+export interface FlowTrade {
+  id: string
+  userAddress: string
+  type: 'BUY' | 'SELL'
+  amount: number
+  solAmount: number
+  createdAt: Date
+}
+
+/**
+ * Trades that look like one party trading with itself
+ */
+export interface WashFinding {
+  kind: 'roundTrip' | 'matchedPair' | 'lockstep'
+  wallets: string[]
+  tradeIds: string[]
+  volume: number    // SOL traded across tradeIds
+}
+
+export interface WashAnalysis {
+  trades: number
+  volume: number
+  washVolume: number       // SOL volume of every flagged trade, each counted once
+  organicVolume: number
+  washShare: number        // Percent of volume flagged
+  findings: WashFinding[]
+}
+
+const round = (value: number) => Math.round(value * 1e9) / 1e9
+
+function sameSize(a: FlowTrade, b: FlowTrade): boolean {
+  const larger = Math.max(a.amount, b.amount)
+  return larger > 0 && (Math.abs(a.amount - b.amount) / larger) * 100 <= SIZE_TOLERANCE
+}
+
+function volumeOf(trades: FlowTrade[]): number {
+  return trades.reduce((sum, trade) => sum + trade.solAmount, 0)
+}
+
+function pairFinding(kind: WashFinding['kind'], first: FlowTrade, second: FlowTrade): WashFinding {
+  return {
+    kind,
+    wallets: [...new Set([first.userAddress, second.userAddress])],
+    tradeIds: [first.id, second.id],
+    volume: round(first.solAmount + second.solAmount)
+  }
+}
+
+// Same wallet, opposite sides, same size, soon after each other
+function findRoundTrips(trades: FlowTrade[], used: Set<string>): WashFinding[] {
+  const findings: WashFinding[] = []
+
+  for (let i = 0; i < trades.length; i++) {
+    const first = trades[i]
+    if (used.has(first.id)) continue
+
+    for (let j = i + 1; j < trades.length; j++) {
+      const second = trades[j]
+      if (second.createdAt.getTime() - first.createdAt.getTime() > ROUND_TRIP_WINDOW_MS) break
+      if (used.has(second.id) || second.userAddress !== first.userAddress || second.type === first.type) continue
+      if (!sameSize(first, second)) continue
+
+      used.add(first.id)
+      used.add(second.id)
+      findings.push(pairFinding('roundTrip', first, second))
+      break
+    }
+  }
+
+  return findings
+}
+
+// Different wallets, opposite sides, same size, almost at once
+function findMatchedPairs(trades: FlowTrade[], used: Set<string>): WashFinding[] {
+  const findings: WashFinding[] = []
+
+  for (let i = 0; i < trades.length; i++) {
+    const first = trades[i]
+    if (used.has(first.id)) continue
+
+    for (let j = i + 1; j < trades.length; j++) {
+      const second = trades[j]
+      if (second.createdAt.getTime() - first.createdAt.getTime() > MATCHED_PAIR_WINDOW_MS) break
+      if (used.has(second.id) || second.userAddress === first.userAddress || second.type === first.type) continue
+      if (!sameSize(first, second)) continue
+
+      used.add(first.id)
+      used.add(second.id)
+      findings.push(pairFinding('matchedPair', first, second))
+      break
+    }
+  }
+
+  return findings
+}
+
+// Groups of wallets that keep trading in the same minute
+function findLockstepClusters(trades: FlowTrade[]): WashFinding[] {
+  const slotsByWallet = new Map<string, Set<number>>()
+  const walletsBySlot = new Map<number, Set<string>>()
+
+  for (const trade of trades) {
+    const slot = Math.floor(trade.createdAt.getTime() / LOCKSTEP_SLOT_MS)
+    if (!slotsByWallet.has(trade.userAddress)) slotsByWallet.set(trade.userAddress, new Set())
+    if (!walletsBySlot.has(slot)) walletsBySlot.set(slot, new Set())
+    slotsByWallet.get(trade.userAddress)!.add(slot)
+    walletsBySlot.get(slot)!.add(trade.userAddress)
+  }
+
+  // Slots shared by each pair of wallets that both trade often enough to judge
+  const shared = new Map<string, number>()
+  for (const wallets of walletsBySlot.values()) {
+    const active = [...wallets].filter((wallet) => slotsByWallet.get(wallet)!.size >= LOCKSTEP_MIN_SLOTS).sort()
+    for (let i = 0; i < active.length; i++) {
+      for (let j = i + 1; j < active.length; j++) {
+        const key = `${active[i]}|${active[j]}`
+        shared.set(key, (shared.get(key) || 0) + 1)
+      }
+    }
+  }
+
+  // Wallets linked by lockstep pairs form one cluster
+  const linked = new Set<string>()
+  const parent = new Map<string, string>()
+  const find = (wallet: string): string => {
+    const root = parent.get(wallet) ?? wallet
+    if (root === wallet) return wallet
+    const top = find(root)
+    parent.set(wallet, top)
+    return top
+  }
+
+  for (const [key, count] of shared) {
+    const [a, b] = key.split('|')
+    const busiest = Math.max(slotsByWallet.get(a)!.size, slotsByWallet.get(b)!.size)
+    if (count >= LOCKSTEP_MIN_SLOTS && count / busiest >= LOCKSTEP_MIN_OVERLAP) {
+      linked.add(a)
+      linked.add(b)
+      const rootA = find(a)
+      const rootB = find(b)
+      if (rootA !== rootB) parent.set(rootA, rootB)
+    }
+  }
+
+  const clusters = new Map<string, Set<string>>()
+  for (const wallet of linked) {
+    const root = find(wallet)
+    if (!clusters.has(root)) clusters.set(root, new Set())
+    clusters.get(root)!.add(wallet)
+  }
+
+  const findings: WashFinding[] = []
+  for (const wallets of clusters.values()) {
+    // Only the trades made alongside another wallet of the cluster are flagged
+    const clustered = trades.filter((trade) => {
+      if (!wallets.has(trade.userAddress)) return false
+      const slotWallets = walletsBySlot.get(Math.floor(trade.createdAt.getTime() / LOCKSTEP_SLOT_MS))!
+      return [...slotWallets].some((wallet) => wallet !== trade.userAddress && wallets.has(wallet))
+    })
+
+    findings.push({
+      kind: 'lockstep',
+      wallets: [...wallets],
+      tradeIds: clustered.map((trade) => trade.id),
+      volume: round(volumeOf(clustered))
+    })
+  }
+
+  return findings
+}
+
+/**
+ * Look for wash trading in a run of trades: round trips, matched buy/sell
+ * pairs and wallets trading in lockstep. A trade can belong to a pair and a
+ * cluster, but counts towards washVolume once.
+ */
+export function detectWashTrading(trades: FlowTrade[]): WashAnalysis {
+  const ordered = [...trades].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  const paired = new Set<string>()
+
+  const findings = [
+    ...findRoundTrips(ordered, paired),
+    ...findMatchedPairs(ordered, paired),
+    ...findLockstepClusters(ordered)
+  ]
+
+  const flagged = new Set(findings.flatMap((finding) => finding.tradeIds))
+  const volume = volumeOf(ordered)
+  const washVolume = volumeOf(ordered.filter((trade) => flagged.has(trade.id)))
+
+  return {
+    trades: ordered.length,
+    volume: round(volume),
+    washVolume: round(washVolume),
+    organicVolume: round(Math.max(0, volume - washVolume)),
+    washShare: volume > 0 ? Math.round((washVolume / volume) * 10000) / 100 : 0,
+    findings
+  }
+}
+
+/**
+ * Wash trading analysis of a token's last WASH_WINDOW_MS of trades
+ */
+export async function analyzeWashTrading(tokenId: string, db: any = prisma): Promise<WashAnalysis> {
+  const trades = await db.transaction.findMany({
+    where: { tokenId, createdAt: { gte: new Date(Date.now() - WASH_WINDOW_MS) } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, userAddress: true, type: true, amount: true, solAmount: true, createdAt: true }
+  })
+
+  return detectWashTrading(trades.map((trade: any) => ({
+    ...trade,
+    amount: Number(trade.amount),
+    solAmount: Number(trade.solAmount)
+  })))
+}
+
+/**
+ * Store a token's 24h volume with its wash and organic parts, which the
+ * token list sorts and ranks trending tokens by
+ */
+export async function refreshVolumeAnalysis(tokenId: string, db: any = prisma) {
+  const analysis = await analyzeWashTrading(tokenId, db)
+
+  await db.token.update({
+    where: { id: tokenId },
+    data: {
+      volume24h: analysis.volume,
+      washVolume24h: analysis.washVolume,
+      organicVolume24h: analysis.organicVolume,
+      volumeAnalyzedAt: new Date()
+    }
+  })
+
+  return analysis
+}
+
+/**
+ * Refresh tokens never analyzed, and tokens with volume whose figures are
+ * older than VOLUME_ANALYSIS_REFRESH_MS. Returns how many were refreshed.
+ */
+export async function refreshStaleVolumeAnalyses(db: any = prisma): Promise<number> {
+  const cutoff = new Date(Date.now() - VOLUME_ANALYSIS_REFRESH_MS)
+  const stale = await db.token.findMany({
+    where: {
+      OR: [
+        { volumeAnalyzedAt: null },
+        { volume24h: { gt: 0 }, volumeAnalyzedAt: { lt: cutoff } }
+      ]
+    },
+    select: { id: true },
+    orderBy: { volumeAnalyzedAt: 'asc' },
+    take: SCHEDULED_BATCH_SIZE
+  })
+
+  let refreshed = 0
+  for (const token of stale) {
+    try {
+      await refreshVolumeAnalysis(token.id, db)
+      refreshed++
+    } catch (error) {
+      console.warn(`Scheduled volume analysis failed for ${token.id}:`, error)
+    }
+  }
+
+  return refreshed
+}
+
+let scheduler: NodeJS.Timeout | null = null
+let running = false
+
+/**
+ * Refresh stale volume figures every VOLUME_ANALYSIS_REFRESH_MS. Started once
+ * per server process from src/instrumentation.ts.
+ */
+export function startVolumeAnalysisScheduler() {
+  if (scheduler) return
+
+  scheduler = setInterval(async () => {
+    // A slow run must not overlap the next one
+    if (running) return
+    running = true
+    try {
+      await refreshStaleVolumeAnalyses()
+    } catch (error) {
+      console.error('Scheduled volume analysis failed:', error)
+    } finally {
+      running = false
+    }
+  }, VOLUME_ANALYSIS_REFRESH_MS)
+  scheduler.unref?.()
+}